@@ -0,0 +1,75 @@
+// auth.mts
+import type * as http from "http";
+import type { ServerMiddleware } from "./dispatcher.mjs";
+
+/**
+ * Server authentication. A verifier resolves with the principal the
+ * credentials belong to, or with a falsy value to reject them; the principal
+ * is passed to method handlers as context.principal.
+ */
+export interface AuthOptions {
+  /** Verifies "Authorization: Basic" credentials. */
+  basic?: (user: string, pass: string, request: http.IncomingMessage) => any;
+  /** Verifies "Authorization: Bearer" tokens. */
+  bearer?: (token: string, request: http.IncomingMessage) => any;
+  /** Realm announced in the WWW-Authenticate challenges. Default "XML-RPC". */
+  realm?: string;
+  /** Methods callable without credentials, e.g. the system.* introspection methods. */
+  publicMethods?: string[];
+}
+
+/**
+ * Builds the middleware enforcing the auth options. Calls without valid
+ * credentials are answered with 401 and a WWW-Authenticate challenge per
+ * accepted scheme, unless every method they call is public.
+ */
+export function authenticate(auth: AuthOptions): ServerMiddleware {
+  const realm = (auth.realm ?? "XML-RPC").replace(/["\\]/g, "\\$&");
+  const publicMethods = new Set(auth.publicMethods ?? []);
+
+  return async (ctx, next) => {
+    const [scheme, credentials] = splitAuthorization(ctx.request.headers.authorization);
+
+    let principal: any;
+    if (scheme === "basic" && auth.basic) {
+      const decoded = Buffer.from(credentials, "base64").toString("utf8");
+      const colon = decoded.indexOf(":");
+      if (colon !== -1) {
+        principal = await auth.basic(decoded.slice(0, colon), decoded.slice(colon + 1), ctx.request);
+      }
+    } else if (scheme === "bearer" && auth.bearer && credentials) {
+      principal = await auth.bearer(credentials, ctx.request);
+    }
+
+    if (principal) {
+      ctx.principal = principal;
+    } else if (!isPublicCall(ctx.methodName, ctx.params, publicMethods)) {
+      const challenges: string[] = [];
+      if (auth.basic) challenges.push(`Basic realm="${realm}", charset="UTF-8"`);
+      if (auth.bearer) {
+        // RFC 6750: tell a client that presented a token that it was rejected
+        challenges.push(`Bearer realm="${realm}"` + (scheme === "bearer" ? ', error="invalid_token"' : ""));
+      }
+      ctx.responseHeaders["WWW-Authenticate"] = challenges;
+      ctx.status = 401;
+      return;
+    }
+
+    await next();
+  };
+}
+
+function splitAuthorization(header: string | undefined): [string, string] {
+  const match = /^\s*(\S+)\s*(.*?)\s*$/.exec(header ?? "");
+  return match ? [match[1].toLowerCase(), match[2]] : ["", ""];
+}
+
+// A multicall is public when every call it batches is
+function isPublicCall(methodName: string, params: any[], publicMethods: Set<string>): boolean {
+  if (publicMethods.has(methodName)) return true;
+  return (
+    methodName === "system.multicall" &&
+    Array.isArray(params[0]) &&
+    params[0].every((call: any) => publicMethods.has(call?.methodName))
+  );
+}
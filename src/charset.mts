@@ -0,0 +1,147 @@
+// charset.mts
+import { StringDecoder } from "string_decoder";
+
+/** Character encodings bodies can be written and read in. */
+export type Charset = "UTF-8" | "UTF-16LE" | "ISO-8859-1" | "windows-1252" | "US-ASCII";
+
+/**
+ * Raised for a body declared in a character encoding that is not supported.
+ */
+export class UnsupportedCharsetError extends Error {
+  charset: string;
+
+  constructor(charset: string) {
+    super("Unsupported charset: " + charset);
+    this.name = "UnsupportedCharsetError";
+    this.charset = charset;
+  }
+}
+
+const ALIASES: Record<string, Charset> = {
+  "utf-8": "UTF-8",
+  utf8: "UTF-8",
+  "utf-16le": "UTF-16LE",
+  utf16le: "UTF-16LE",
+  "iso-8859-1": "ISO-8859-1",
+  "iso8859-1": "ISO-8859-1",
+  "iso_8859-1": "ISO-8859-1",
+  latin1: "ISO-8859-1",
+  l1: "ISO-8859-1",
+  cp819: "ISO-8859-1",
+  "windows-1252": "windows-1252",
+  cp1252: "windows-1252",
+  "x-cp1252": "windows-1252",
+  "us-ascii": "US-ASCII",
+  ascii: "US-ASCII",
+};
+
+// Windows-1252 differs from ISO-8859-1 in 0x80-0x9F; the five unassigned
+// bytes there map to the C1 controls, as in the WHATWG encoding standard
+const WINDOWS_1252 = [
+  0x20ac, 0x81, 0x201a, 0x192, 0x201e, 0x2026, 0x2020, 0x2021,
+  0x2c6, 0x2030, 0x160, 0x2039, 0x152, 0x8d, 0x17d, 0x8f,
+  0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014,
+  0x2dc, 0x2122, 0x161, 0x203a, 0x153, 0x9d, 0x17e, 0x178,
+];
+const WINDOWS_1252_BYTES = new Map(WINDOWS_1252.map((code, i) => [code, 0x80 + i]));
+
+/**
+ * The canonical name of a charset given by any of its common names, as used
+ * in Content-Type headers, XML declarations or by Buffer.
+ */
+export function normalizeCharset(name: string): Charset {
+  const charset = ALIASES[name.trim().toLowerCase()];
+  if (!charset) throw new UnsupportedCharsetError(name);
+  return charset;
+}
+
+/**
+ * The charset parameter of a Content-Type header, if any.
+ */
+export function charsetOf(contentType: string | undefined): string | undefined {
+  const match = /;\s*charset\s*=\s*"?([^";\s]+)"?/i.exec(contentType ?? "");
+  return match ? match[1] : undefined;
+}
+
+/**
+ * A Content-Type for XML in the charset. UTF-8 goes without a parameter, as
+ * it is the default for XML.
+ */
+export function contentType(charset: Charset): string {
+  return charset === "UTF-8" ? "text/xml" : "text/xml; charset=" + charset;
+}
+
+/**
+ * Works out the charset of a body from its first bytes and the charset of
+ * its Content-Type, in the order of RFC 7303: a byte order mark, then the
+ * header, then the XML declaration, else UTF-8. Also returns the length of
+ * the byte order mark, which is not part of the text.
+ */
+export function detectCharset(head: Buffer, declared?: string): { charset: Charset; bom: number } {
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) return { charset: "UTF-8", bom: 3 };
+  if (head[0] === 0xff && head[1] === 0xfe) return { charset: "UTF-16LE", bom: 2 };
+  if (head[0] === 0xfe && head[1] === 0xff) throw new UnsupportedCharsetError("UTF-16BE");
+
+  if (declared !== undefined) return { charset: normalizeCharset(declared), bom: 0 };
+
+  const match = /^\s*<\?xml[^>]*?\sencoding\s*=\s*["']([^"']+)["']/.exec(head.toString("latin1"));
+  return { charset: match ? normalizeCharset(match[1]) : "UTF-8", bom: 0 };
+}
+
+/**
+ * Decodes a body arriving in chunks, keeping characters split between
+ * chunks whole.
+ */
+export function createCharsetDecoder(charset: Charset): { write(chunk: Buffer): string; end(): string } {
+  switch (charset) {
+    case "UTF-8":
+    case "UTF-16LE": {
+      const decoder = new StringDecoder(charset === "UTF-8" ? "utf8" : "utf16le");
+      return { write: (chunk) => decoder.write(chunk), end: () => decoder.end() };
+    }
+    case "windows-1252":
+      return {
+        write: (chunk) =>
+          chunk.toString("latin1").replace(/[\x80-\x9f]/g, (c) => String.fromCharCode(WINDOWS_1252[c.charCodeAt(0) - 0x80])),
+        end: () => "",
+      };
+    default:
+      // Bytes above 0x7F are not ASCII; they are read as ISO-8859-1 rather than dropped
+      return { write: (chunk) => chunk.toString("latin1"), end: () => "" };
+  }
+}
+
+/**
+ * Encodes XML text in the charset. Characters the charset cannot represent
+ * are written as character references, closing and reopening any CDATA
+ * section they occur in, so the text must not end inside one.
+ */
+export function encodeXml(text: string, charset: Charset): Buffer {
+  if (charset === "UTF-8") return Buffer.from(text, "utf8");
+  if (charset === "UTF-16LE") return Buffer.from(text, "utf16le");
+
+  const byteOf = (char: string): number | undefined => {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) return code;
+    if (charset === "US-ASCII") return undefined;
+    if (charset === "windows-1252") {
+      if (code >= 0x80 && code <= 0x9f) return undefined;
+      if (WINDOWS_1252_BYTES.has(code)) return WINDOWS_1252_BYTES.get(code);
+    }
+    return code <= 0xff ? code : undefined;
+  };
+  const reference = (char: string) => "&#x" + char.codePointAt(0)!.toString(16).toUpperCase() + ";";
+
+  const escaped = text.replace(/<!\[CDATA\[[\s\S]*?\]\]>|[^\x00-\x7f]/gu, (match) => {
+    if (!match.startsWith("<![CDATA[")) return byteOf(match) === undefined ? reference(match) : match;
+    return match.replace(/[^\x00-\x7f]/gu, (char) =>
+      byteOf(char) === undefined ? "]]>" + reference(char) + "<![CDATA[" : char
+    );
+  });
+
+  const bytes = Buffer.alloc(escaped.length);
+  for (let i = 0; i < escaped.length; i++) {
+    bytes[i] = byteOf(escaped[i])!;
+  }
+  return bytes;
+}
@@ -1,38 +1,147 @@
 // Client.mts
 import * as http from "http";
 import * as https from "https";
+import type { Readable } from "stream";
 import { parse as parseUrl } from "url";
-import Serializer from "./serializer.mjs";
-import Deserializer from "./deserializer.mjs";
-import Cookies from "./cookies.mjs";
+import Serializer, { DEFAULT_STREAM_THRESHOLD, type SerializerOptions } from "./serializer.mjs";
+import Deserializer, { LimitExceededError, type Limits } from "./deserializer.mjs";
+import { XmlRpcFault } from "./fault.mjs";
+import { coerceValue, type ValueSchema } from "./value_types.mjs";
+import Cookies, { type CookieTarget } from "./cookies.mjs";
+import { retryableError, retryDelay, type RetryPolicy } from "./retry.mjs";
+import {
+  compressInto,
+  compressionOptions,
+  createDecoder,
+  decodeBody,
+  type CompressionOptions,
+} from "./compression.mjs";
+import { charsetOf, contentType, normalizeCharset } from "./charset.mjs";
 
 type HeaderComposer = {
-  composeRequest: (headers: http.OutgoingHttpHeaders) => void;
-  parseResponse: (headers: http.IncomingHttpHeaders) => void;
+  composeRequest: (headers: http.OutgoingHttpHeaders, target: CookieTarget) => void;
+  parseResponse: (headers: http.IncomingHttpHeaders, target: CookieTarget) => void;
 };
 
 type BasicAuth = { user: string; pass: string };
 
 export interface ClientOptions extends http.RequestOptions {
   url?: string; // may be used instead of host/port/path
-  cookies?: boolean; // enable cookie jar behavior
+  cookies?: boolean | Cookies; // enable cookie jar behavior, optionally with a restored jar
   basic_auth?: BasicAuth;
-  encoding?: BufferEncoding; // request body encoding when serializing
-  responseEncoding?: BufferEncoding; // stream.setEncoding for response deserialization
+  encoding?: string; // charset of request bodies, e.g. "ISO-8859-1"; default UTF-8
+  responseEncoding?: BufferEncoding; // decode responses in this encoding instead of detecting their charset
+  streamThreshold?: number; // request bodies above this many bytes are sent chunked
+  bigint?: boolean; // decode <i8> response values to BigInt
+  integerOverflow?: SerializerOptions["integerOverflow"]; // numbers outside int32: "promote" to <i8> or "throw"
+  extensions?: boolean; // Apache XML-RPC "ex:" extension types
+  strict?: boolean; // validate the response grammar instead of parsing leniently
+  limits?: Limits; // bounds on response bodies, enforced while streaming
+  methodSchemas?: Record<string, ValueSchema[]>; // declared param types per method, see setMethodSchema()
+  retry?: RetryPolicy; // retries failed calls to idempotent methods
+  compression?: boolean | CompressionOptions; // gzip request bodies above a threshold, accept compressed responses
+  maxRedirects?: number; // follow up to this many 301/302/307/308 redirects; default 0, not followed
   headers?: http.OutgoingHttpHeaders;
 }
 
+// Statuses followed when maxRedirects is set; all of them re-send the call
+const REDIRECT_STATUSES = [301, 302, 307, 308];
+
+// How much of a response that is not a method response is kept for the error
+const HTTP_ERROR_BODY_BYTES = 64 * 1024;
+
 export type MethodCallback = (error: any, value?: any) => void;
 
+/**
+ * Raised when a call does not complete within its timeout. The deadline
+ * covers the whole exchange: connecting, sending and reading the response.
+ */
+export class TimeoutError extends Error {
+  timeout: number;
+
+  constructor(timeout: number) {
+    super(`Request timed out after ${timeout}ms`);
+    this.name = "TimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Raised when the server answers with something other than a method
+ * response: a status outside 2xx, or a body that is not XML. The message
+ * is the status text unless the status itself was fine.
+ */
+export class XmlRpcHttpError extends Error {
+  statusCode: number;
+  headers: http.IncomingHttpHeaders;
+  /** The response body as text, cut off after 64 KiB. */
+  body: string;
+
+  constructor(statusCode: number, headers: http.IncomingHttpHeaders, body: string, message?: string) {
+    super(message ?? http.STATUS_CODES[statusCode] ?? `HTTP status ${statusCode}`);
+    this.name = "XmlRpcHttpError";
+    this.statusCode = statusCode;
+    this.headers = headers;
+    this.body = body;
+  }
+}
+
+/**
+ * A single call batched through system.multicall.
+ */
+export interface MulticallEntry {
+  methodName: string;
+  params?: any[];
+}
+
+/**
+ * Options that apply to a single call only.
+ */
+export interface CallOptions {
+  signal?: AbortSignal; // aborts the underlying http.request
+  timeout?: number; // overrides ClientOptions.timeout for this call; 0 for none
+  headers?: http.OutgoingHttpHeaders; // merged over the client's headers
+  idempotent?: boolean; // marks the call safe to retry, overriding retry.idempotentMethods
+  retry?: RetryPolicy | false; // overrides ClientOptions.retry for this call
+}
+
+/**
+ * A call on its way through the client middleware. Before next() is called
+ * the call can still be changed; afterwards the response status and headers
+ * are filled in.
+ */
+export interface ClientCallContext {
+  method: string;
+  params: any[];
+  /** Request headers, with cookies already applied. */
+  headers: http.OutgoingHttpHeaders;
+  /** Serialized request body. Sent as is when set, otherwise serialized from method and params. */
+  body?: string;
+  /** Serializes method and params into body and returns it. */
+  serialize(): string;
+  callOptions: CallOptions;
+  statusCode?: number;
+  responseHeaders?: http.IncomingHttpHeaders;
+}
+
+/**
+ * Client middleware. next() sends the call (through the middleware added
+ * after this one) and resolves with the decoded result, or rejects with the
+ * fault or error. Whatever the middleware returns becomes the call's result,
+ * so it may also answer without calling next(), or call next() again to retry.
+ */
+export type ClientMiddleware = (ctx: ClientCallContext, next: () => Promise<any>) => any;
+
 export default class Client {
   options!: Required<ClientOptions>;
   isSecure!: boolean;
   headersProcessors!: {
     processors: HeaderComposer[];
-    composeRequest: (headers: http.OutgoingHttpHeaders) => void;
-    parseResponse: (headers: http.IncomingHttpHeaders) => void;
+    composeRequest: (headers: http.OutgoingHttpHeaders, target: CookieTarget) => void;
+    parseResponse: (headers: http.IncomingHttpHeaders, target: CookieTarget) => void;
   };
   cookies?: Cookies;
+  middleware: ClientMiddleware[] = [];
 
   constructor(options: ClientOptions | string, isSecure = false) {
     // Allow calling without `new`
@@ -59,15 +168,21 @@ export default class Client {
       if (parsedUrl.port) opts.port = Number(parsedUrl.port);
     }
 
+    // Throws for charsets that cannot be encoded
+    const charset = normalizeCharset(opts.encoding ?? "utf8");
+
     // Default headers
     const defaultHeaders: http.OutgoingHttpHeaders = {
       "User-Agent": "NodeJS XML-RPC Client",
-      "Content-Type": "text/xml",
+      "Content-Type": contentType(charset),
       Accept: "text/xml",
       "Accept-Charset": "UTF8",
       Connection: "Keep-Alive",
     };
     opts.headers = opts.headers ?? {};
+    if (opts.compression) {
+      defaultHeaders["Accept-Encoding"] = "gzip, deflate";
+    }
 
     // Basic auth header
     if (
@@ -119,8 +234,18 @@ export default class Client {
       url: opts.url!!,
       cookies: opts.cookies ?? false,
       basic_auth: opts.basic_auth!!,
-      encoding: opts.encoding ?? "utf8",
+      encoding: charset,
       responseEncoding: opts.responseEncoding!!,
+      streamThreshold: opts.streamThreshold ?? DEFAULT_STREAM_THRESHOLD,
+      bigint: opts.bigint ?? false,
+      integerOverflow: opts.integerOverflow ?? "promote",
+      extensions: opts.extensions ?? false,
+      strict: opts.strict ?? false,
+      limits: { ...opts.limits },
+      methodSchemas: { ...opts.methodSchemas },
+      retry: opts.retry!!,
+      compression: opts.compression ?? false,
+      maxRedirects: opts.maxRedirects ?? 0,
       // Keep other RequestOptions fields if present
       host: opts.host as any,
       hostname: (opts as any).hostname,
@@ -133,17 +258,17 @@ export default class Client {
 
     this.headersProcessors = {
       processors: [],
-      composeRequest: function (headers: http.OutgoingHttpHeaders) {
-        this.processors.forEach((p) => p.composeRequest(headers));
+      composeRequest: function (headers: http.OutgoingHttpHeaders, target: CookieTarget) {
+        this.processors.forEach((p) => p.composeRequest(headers, target));
       },
-      parseResponse: function (headers: http.IncomingHttpHeaders) {
-        this.processors.forEach((p) => p.parseResponse(headers));
+      parseResponse: function (headers: http.IncomingHttpHeaders, target: CookieTarget) {
+        this.processors.forEach((p) => p.parseResponse(headers, target));
       },
     };
 
     if (finalized.cookies) {
-      this.cookies = new (Cookies as any)();
-      this.headersProcessors.processors.unshift(this.cookies as unknown as HeaderComposer);
+      this.cookies = finalized.cookies instanceof Cookies ? finalized.cookies : new Cookies();
+      this.headersProcessors.processors.unshift(this.cookies);
     }
   }
 
@@ -155,44 +280,397 @@ export default class Client {
    * @param callback function(error, value) { ... }
    */
   methodCall(method: string, params: any[], callback: MethodCallback): void {
-    const options = this.options;
-    const xml = Serializer.serializeMethodCall(method, params, options.encoding);
-    const transport = this.isSecure ? https : http;
+    this.performCall(method, params, {}, callback);
+  }
+
+  /**
+   * Promise-based variant of methodCall() accepting per-call options.
+   *
+   * @param method The method name.
+   * @param params Params to send in the call.
+   * @param callOptions Abort signal, timeout and header overrides for this call.
+   */
+  call(method: string, params: any[] = [], callOptions: CallOptions = {}): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.performCall(method, params, callOptions, (error, value) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(value);
+        }
+      });
+    });
+  }
+
+  /**
+   * Sends several calls in one system.multicall round trip.
+   *
+   * Resolves with one entry per call, in order: the call's result, or an
+   * XmlRpcFault if that call faulted. The promise
+   * itself only rejects when the multicall as a whole fails.
+   *
+   * @param calls The method names and params to batch.
+   * @param callOptions Abort signal, timeout and header overrides for the batch.
+   */
+  multicall(calls: MulticallEntry[], callOptions: CallOptions = {}): Promise<any[]> {
+    let entries: { methodName: string; params: any[] }[];
+    try {
+      entries = calls.map((c) => ({
+        methodName: c.methodName,
+        params: this.coerceParams(c.methodName, c.params ?? []),
+      }));
+    } catch (err) {
+      return Promise.reject(err);
+    }
+
+    return this.call("system.multicall", [entries], callOptions).then((results) => {
+      if (!Array.isArray(results) || results.length !== entries.length) {
+        throw new Error("Invalid system.multicall response");
+      }
+      return results.map((result) => (Array.isArray(result) ? result[0] : XmlRpcFault.fromStruct(result)));
+    });
+  }
+
+  /**
+   * Declares the param types of a method. Plain values passed to it are then
+   * coerced to those types before serializing, e.g. 3 is sent as
+   * <double>3.0</double> for a "double" param. Chainable.
+   *
+   *   client.setMethodSchema("setPrice", ["string", "double"]);
+   */
+  setMethodSchema(method: string, schema: ValueSchema[]): this {
+    this.options.methodSchemas[method] = schema;
+    return this;
+  }
+
+  /**
+   * Adds a middleware run around every call, in the order added. Chainable.
+   *
+   *   client.use(async (ctx, next) => {
+   *     ctx.headers["X-Signature"] = sign(ctx.serialize());
+   *     return next();
+   *   });
+   */
+  use(middleware: ClientMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  // The server calls go to, as cookies are scoped to it
+  private cookieTarget(url?: URL): CookieTarget {
+    if (url) {
+      return { host: url.hostname.replace(/^\[(.*)\]$/, "$1"), path: url.pathname, secure: url.protocol === "https:" };
+    }
+    return {
+      host: this.options.host ?? this.options.hostname ?? "localhost",
+      path: this.options.path ?? "/",
+      secure: this.isSecure,
+    };
+  }
+
+  // The URL calls go to, against which redirect locations are resolved
+  private requestUrl(): URL {
+    const host = this.options.host ?? this.options.hostname ?? "localhost";
+    return new URL(
+      (this.isSecure ? "https://" : "http://") +
+      (host.includes(":") ? `[${host}]` : host) +
+      (this.options.port ? ":" + this.options.port : "") +
+      (this.options.path ?? "/")
+    );
+  }
+
+  private coerceParams(method: string, params: any[]): any[] {
+    const schema = this.options.methodSchemas[method];
+    if (!schema) return params;
+    return params.map((param, index) => coerceValue(param, schema[index] ?? "any"));
+  }
 
-    options.headers["Content-Length"] = Buffer.byteLength(xml, "utf8");
-    this.headersProcessors.composeRequest(options.headers);
+  private performCall(
+    method: string,
+    params: any[],
+    callOptions: CallOptions,
+    callback: MethodCallback
+  ): void {
+    let coercedParams: any[];
+    try {
+      coercedParams = this.coerceParams(method, params);
+    } catch (err) {
+      process.nextTick(() => callback(err));
+      return;
+    }
+
+    const policy = callOptions.retry ?? this.options.retry;
+    const idempotent = callOptions.idempotent ?? (policy ? policy.idempotentMethods?.includes(method) : false);
+    if (!policy || !idempotent) {
+      this.runMiddleware(method, coercedParams, callOptions, callback);
+      return;
+    }
+
+    const signal = callOptions.signal;
+    const retryOn = policy.retryOn ?? retryableError;
+    let attempt = 1;
 
-    const request = transport.request(options, (response) => {
-      const body: Buffer[] = [];
-      response.on("data", (chunk) => {
-        body.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk)));
+    const run = () => {
+      this.runMiddleware(method, coercedParams, callOptions, (error, value) => {
+        if (!error || attempt > policy.retries || signal?.aborted || !retryOn(error, attempt)) {
+          callback(error, value);
+          return;
+        }
+
+        // An abort while waiting cancels the pending retry
+        const onAbort = () => {
+          clearTimeout(timer);
+          callback(signal!.reason ?? error);
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener("abort", onAbort);
+          attempt++;
+          run();
+        }, retryDelay(policy, attempt));
+        signal?.addEventListener("abort", onAbort, { once: true });
       });
+    };
+    run();
+  }
 
-      const __enrichError = (err: any) => {
-        // mirror original non-enumerable properties
-        Object.defineProperty(err, "req", { value: request });
-        Object.defineProperty(err, "res", { value: response });
-        Object.defineProperty(err, "body", { value: Buffer.concat(body).toString() });
-        return err;
-      };
+  private runMiddleware(
+    method: string,
+    params: any[],
+    callOptions: CallOptions,
+    callback: MethodCallback
+  ): void {
+    const options = this.options;
+    const serializerOptions: SerializerOptions = {
+      integerOverflow: options.integerOverflow,
+      extensions: options.extensions,
+    };
 
-      if (response.statusCode === 404) {
-        callback(__enrichError(new Error("Not Found")));
-      } else {
-        this.headersProcessors.parseResponse(response.headers);
+    // Headers are composed on a copy so calls never leak into each other
+    const headers: http.OutgoingHttpHeaders = { ...options.headers, ...callOptions.headers };
+    this.headersProcessors.composeRequest(headers, this.cookieTarget());
 
-        const deserializer = new Deserializer(options.responseEncoding);
+    const ctx: ClientCallContext = {
+      method,
+      params,
+      headers,
+      callOptions,
+      serialize() {
+        this.body = Serializer.serializeMethodCall(this.method, this.params, options.encoding, serializerOptions);
+        return this.body;
+      },
+    };
+
+    const middleware = this.middleware.slice();
+    if (middleware.length === 0) {
+      this.sendCall(ctx, callback);
+      return;
+    }
 
-        deserializer.deserializeMethodResponse(response, (err: any, result: any) => {
-          if (err) err = __enrichError(err);
-          callback(err, result);
+    const dispatch = (index: number): Promise<any> => {
+      if (index === middleware.length) {
+        return new Promise((resolve, reject) => {
+          this.sendCall(ctx, (error, value) => (error ? reject(error) : resolve(value)));
         });
       }
-    });
+      return Promise.resolve().then(() => middleware[index](ctx, () => dispatch(index + 1)));
+    };
+    dispatch(0).then((value) => callback(null, value), callback);
+  }
 
-    request.on("error", callback);
-    request.write(xml, "utf8");
-    request.end();
+  private sendCall(ctx: ClientCallContext, callback: MethodCallback): void {
+    const options = this.options;
+    const callOptions = ctx.callOptions;
+    const origin = this.requestUrl().origin;
+
+    // A redirect sends the body again, so it is serialized once per request
+    const chunks = (): Iterable<string> =>
+      ctx.body !== undefined
+        ? [ctx.body]
+        : Serializer.methodCallChunks(ctx.method, ctx.params, options.encoding, {
+          integerOverflow: options.integerOverflow,
+          extensions: options.extensions,
+        });
+
+    // The timeout is enforced below as a deadline rather than as the socket
+    // idle timeout; it covers every request of a redirect chain. As with
+    // http.request, 0 means none
+    const timeout = callOptions.timeout ?? options.timeout;
+
+    // An abort or timeout may surface on both the request and the response
+    let done = false;
+    let deadline: NodeJS.Timeout | undefined;
+    let current: http.ClientRequest;
+    const finish: MethodCallback = (error, value) => {
+      if (done) return;
+      done = true;
+      clearTimeout(deadline);
+      callback(error, value);
+    };
+
+    // Sends the call to the configured server, or to where a redirect pointed
+    const send = (target: URL | undefined, headers: http.OutgoingHttpHeaders, redirects: number): void => {
+      const secure = target ? target.protocol === "https:" : this.isSecure;
+      const transport = secure ? https : http;
+      const requestOptions: http.RequestOptions = { ...options, headers, timeout: undefined };
+      if (target) {
+        Object.assign(requestOptions, {
+          protocol: target.protocol,
+          host: target.hostname.replace(/^\[(.*)\]$/, "$1"),
+          hostname: undefined,
+          port: target.port || undefined,
+          path: target.pathname + target.search,
+          socketPath: undefined,
+          // Credentials given as options stay with the server they were meant for
+          auth: target.origin === origin ? options.auth : undefined,
+          agent: secure === this.isSecure ? options.agent : undefined,
+        });
+      }
+      if (callOptions.signal) requestOptions.signal = callOptions.signal;
+
+      const request = transport.request(requestOptions, (response) => {
+        const statusCode = response.statusCode ?? 0;
+        ctx.statusCode = statusCode;
+        ctx.responseHeaders = response.headers;
+
+        const __enrichError = (err: any) => {
+          // mirror original non-enumerable properties
+          Object.defineProperty(err, "req", { value: request });
+          Object.defineProperty(err, "res", { value: response });
+          // An XmlRpcHttpError already holds the body, cut to its limit
+          if (!(err instanceof XmlRpcHttpError)) {
+            Object.defineProperty(err, "body", { value: Buffer.concat(body).toString() });
+          }
+          return err;
+        };
+
+        // Compressed responses are decompressed before anything reads them
+        const body: Buffer[] = [];
+        let source: Readable = response;
+        try {
+          const decoder = createDecoder(response.headers["content-encoding"]);
+          if (decoder) source = decodeBody(response, decoder);
+        } catch (err) {
+          finish(__enrichError(err));
+          request.destroy();
+          return;
+        }
+        source.on("data", (chunk) => {
+          body.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk)));
+        });
+
+        // Reads what the server answered instead of a method response, to hand it to the caller
+        const maxBodyBytes = options.limits.maxBodyBytes;
+        const fail = (message?: string) => {
+          const limit = Math.min(HTTP_ERROR_BODY_BYTES, maxBodyBytes ?? Infinity);
+          const settle = () => {
+            const text = Buffer.concat(body).subarray(0, limit).toString();
+            finish(__enrichError(new XmlRpcHttpError(statusCode, response.headers, text, message)));
+          };
+          let received = 0;
+          source.on("data", (chunk) => {
+            received += chunk.length;
+            if (received > limit) {
+              settle();
+              request.destroy();
+            }
+          });
+          source.on("end", settle);
+          source.on("error", settle);
+        };
+
+        const url = target ?? this.requestUrl();
+        this.headersProcessors.parseResponse(response.headers, this.cookieTarget(target));
+
+        const location = response.headers.location;
+        if (REDIRECT_STATUSES.includes(statusCode) && location && options.maxRedirects > 0) {
+          if (redirects >= options.maxRedirects) {
+            fail(`Too many redirects (more than ${options.maxRedirects})`);
+            return;
+          }
+          let next: URL;
+          try {
+            next = new URL(location, url);
+          } catch {
+            fail("Invalid redirect location: " + location);
+            return;
+          }
+          if (next.protocol !== "http:" && next.protocol !== "https:") {
+            fail("Invalid redirect location: " + location);
+            return;
+          }
+          response.resume();
+
+          // Credentials and cookies are not passed on to another server
+          const nextHeaders: http.OutgoingHttpHeaders = { ...headers };
+          if (next.origin !== url.origin) {
+            for (const name of Object.keys(nextHeaders)) {
+              if (/^(authorization|cookie)$/i.test(name)) delete nextHeaders[name];
+            }
+            this.headersProcessors.composeRequest(nextHeaders, this.cookieTarget(next));
+          }
+          send(next, nextHeaders, redirects + 1);
+          return;
+        }
+
+        if (statusCode < 200 || statusCode >= 300) {
+          fail();
+        } else if (!isXmlContentType(response.headers["content-type"])) {
+          fail("Unexpected Content-Type: " + response.headers["content-type"]);
+        } else if (maxBodyBytes !== undefined && Number(response.headers["content-length"]) > maxBodyBytes) {
+          finish(__enrichError(new LimitExceededError("maxBodyBytes", `Body exceeds ${maxBodyBytes} bytes`)));
+          request.destroy();
+        } else {
+          const deserializer = new Deserializer({
+            encoding: options.responseEncoding,
+            charset: charsetOf(response.headers["content-type"]),
+            bigint: options.bigint,
+            extensions: options.extensions,
+            strict: options.strict,
+            limits: options.limits,
+          });
+
+          deserializer.deserializeMethodResponse(source, (err: any, result: any) => {
+            if (err) err = __enrichError(err);
+            finish(err, result);
+            // parsing stopped early; the rest of the response is not wanted
+            if (err instanceof LimitExceededError) request.destroy();
+          });
+        }
+      });
+
+      current = request;
+      request.on("error", finish);
+
+      // Small bodies get a Content-Length, large ones go out chunked as they are serialized
+      const compression = compressionOptions(options.compression);
+      Serializer.writeDocument(
+        chunks(),
+        request,
+        {
+          threshold: options.streamThreshold,
+          charset: normalizeCharset(options.encoding),
+          onHead: (contentLength) => {
+            if (compression && (contentLength === undefined || contentLength >= compression.threshold)) {
+              request.setHeader("Content-Encoding", "gzip");
+              return compressInto("gzip", request);
+            }
+            if (contentLength !== undefined) request.setHeader("Content-Length", contentLength);
+          },
+        },
+        (err) => {
+          if (err) request.destroy(err);
+        }
+      );
+    };
+
+    send(undefined, ctx.headers, 0);
+    if (timeout !== undefined && timeout > 0) {
+      deadline = setTimeout(() => {
+        const err = new TimeoutError(timeout);
+        finish(err);
+        current.destroy(err);
+      }, timeout);
+    }
   }
 
   /**
@@ -203,7 +681,7 @@ export default class Client {
     if (!this.cookies) {
       throw new Error("Cookies support is not turned on for this client instance");
     }
-    return (this.cookies as any).get(name);
+    return this.cookies.get(name);
   }
 
   /**
@@ -214,7 +692,14 @@ export default class Client {
     if (!this.cookies) {
       throw new Error("Cookies support is not turned on for this client instance");
     }
-    (this.cookies as any).set(name, value);
+    this.cookies.set(name, value);
     return this;
   }
 }
+
+// Responses without a Content-Type are read as XML, as older servers often omit it
+function isXmlContentType(contentType: string | undefined): boolean {
+  if (!contentType) return true;
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  return type === "text/xml" || type === "application/xml" || type.endsWith("+xml");
+}
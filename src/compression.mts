@@ -0,0 +1,89 @@
+// compression.mts
+import * as zlib from "zlib";
+import type { Readable, Transform, Writable } from "stream";
+
+/** Content codings this library compresses and decompresses. */
+export type ContentCoding = "gzip" | "deflate";
+
+/**
+ * HTTP compression of bodies. Set to true for the defaults.
+ */
+export interface CompressionOptions {
+  /** Bodies smaller than this many bytes are sent uncompressed. Default 1024. */
+  threshold?: number;
+}
+
+const DEFAULT_THRESHOLD = 1024;
+
+/**
+ * Normalizes the compression option: undefined when it is off.
+ */
+export function compressionOptions(
+  option: boolean | CompressionOptions | undefined
+): Required<CompressionOptions> | undefined {
+  if (!option) return undefined;
+  return { threshold: (option === true ? undefined : option.threshold) ?? DEFAULT_THRESHOLD };
+}
+
+/**
+ * Picks the coding to answer with from an Accept-Encoding header, preferring
+ * gzip. Undefined if the client accepts neither.
+ */
+export function negotiateCoding(acceptEncoding: string | string[] | undefined): ContentCoding | undefined {
+  const qualities = new Map<string, number>();
+  for (const entry of String(acceptEncoding ?? "").split(",")) {
+    const [coding, ...params] = entry.trim().toLowerCase().split(";");
+    if (!coding) continue;
+    const q = params.map((p) => /^\s*q=([\d.]+)\s*$/.exec(p)).find(Boolean);
+    qualities.set(coding, q ? Number(q[1]) : 1);
+  }
+
+  const accepts = (coding: string) => (qualities.get(coding) ?? qualities.get("*") ?? 0) > 0;
+  if (accepts("gzip")) return "gzip";
+  if (accepts("deflate")) return "deflate";
+  return undefined;
+}
+
+/**
+ * Returns a stream decompressing a body sent with the given Content-Encoding,
+ * or null if it is not compressed. Throws for codings that are not supported.
+ */
+export function createDecoder(contentEncoding: string | string[] | undefined): Transform | null {
+  const coding = String(contentEncoding ?? "").trim().toLowerCase();
+  switch (coding) {
+    case "":
+    case "identity":
+      return null;
+    case "gzip":
+    case "x-gzip":
+      return zlib.createGunzip();
+    case "deflate":
+      return zlib.createInflate();
+    default:
+      throw new Error("Unsupported Content-Encoding: " + coding);
+  }
+}
+
+/**
+ * Pipes a compressed body into its decoder. Unlike a bare pipe(), the
+ * decoder fails when the body errors or is cut off, so whatever reads it
+ * does not wait forever.
+ */
+export function decodeBody(body: Readable, decoder: Transform): Transform {
+  body.on("error", (err) => decoder.destroy(err));
+  body.on("close", () => {
+    if (!body.readableEnded) decoder.destroy(new Error("aborted"));
+  });
+  return body.pipe(decoder);
+}
+
+/**
+ * Returns a compressor piped into the destination, destroying the
+ * destination if compression fails.
+ */
+export function compressInto(coding: ContentCoding, destination: Writable): Writable {
+  const encoder = coding === "gzip" ? zlib.createGzip() : zlib.createDeflate();
+  encoder.on("error", (err) => destination.destroy(err));
+  encoder.pipe(destination);
+  return encoder;
+}
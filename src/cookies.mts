@@ -1,126 +1,203 @@
 // cookies.mts
 import type * as http from "http";
+import { isIP } from "net";
+
+type SameSite = "Strict" | "Lax" | "None";
 
 type CookieRecord = {
+  name: string;
   value: string;
+  /** Canonical (lowercase) domain; unset for cookies set by hand, which match any host. */
+  domain?: string;
+  /** Sent to the domain itself only, not to its subdomains. */
+  hostOnly: boolean;
+  path: string;
+  /** Unset for session cookies. */
   expires?: Date;
-  secure?: boolean;
-  /** preserved from original; not used in logic */
-  new?: boolean;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: SameSite;
+  creation: Date;
 };
 
+/**
+ * The server a request goes to, as needed to pick the cookies sent with it.
+ */
+export interface CookieTarget {
+  host: string;
+  path: string;
+  secure: boolean;
+}
+
+/**
+ * A cookie as stored by Cookies.toJSON(), dates as ISO strings.
+ */
+export interface CookieJSON {
+  name: string;
+  value: string;
+  domain?: string;
+  hostOnly?: boolean;
+  path?: string;
+  expires?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: SameSite;
+  creation?: string;
+}
+
+/**
+ * Parses a Cookie request header into values by name. The first of several
+ * cookies with the same name wins, as it is the most specific one.
+ */
+export function parseCookieHeader(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const pair of header.split(";")) {
+    const eqIdx = pair.indexOf("=");
+    if (eqIdx < 0) continue;
+    const name = pair.slice(0, eqIdx).trim();
+    let value = pair.slice(eqIdx + 1).trim();
+    if (value.length > 1 && value.startsWith('"') && value.endsWith('"')) value = value.slice(1, -1);
+    if (name && !Object.prototype.hasOwnProperty.call(cookies, name)) {
+      Object.defineProperty(cookies, name, { value, enumerable: true, writable: true, configurable: true });
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Cookie jar following RFC 6265: cookies are scoped by domain and path,
+ * Max-Age takes precedence over Expires and secure cookies are only sent
+ * over HTTPS. Public suffixes are not checked, so a server may set cookies
+ * for a parent domain of its host.
+ */
 export default class Cookies {
-  private cookies: Record<string, CookieRecord>;
+  private cookies: Map<string, CookieRecord>;
 
   constructor() {
-    this.cookies = {};
+    this.cookies = new Map();
   }
 
   /**
-   * Obtains value of the cookie with specified name.
-   * Checks expiration and returns null for expired/nonexistent cookies.
+   * Restores a jar saved with toJSON(), given as the object or its JSON text.
    */
-  get(name: string): string | null {
-    const cookie = this.cookies[name];
-    if (cookie && this.checkNotExpired(name)) {
-      return this.cookies[name].value;
+  static fromJSON(json: CookieJSON[] | string): Cookies {
+    const jar = new Cookies();
+    const list: CookieJSON[] = typeof json === "string" ? JSON.parse(json) : json;
+
+    for (const c of list) {
+      const expires = c.expires !== undefined ? new Date(c.expires) : undefined;
+      jar.store({
+        name: c.name,
+        value: c.value,
+        domain: c.domain,
+        hostOnly: c.hostOnly ?? false,
+        path: c.path ?? "/",
+        expires: expires && !Number.isNaN(expires.getTime()) ? expires : undefined,
+        secure: c.secure ?? false,
+        httpOnly: c.httpOnly ?? false,
+        sameSite: c.sameSite,
+        creation: c.creation !== undefined ? new Date(c.creation) : new Date(),
+      });
     }
-    return null;
+    return jar;
+  }
+
+  /**
+   * Obtains value of the cookie with specified name, whatever its domain
+   * and path; the newest one if there are several. Returns null for
+   * expired/nonexistent cookies.
+   */
+  get(name: string): string | null {
+    return this.newest(name)?.value ?? null;
   }
 
   /**
-   * Sets a cookie's value with optional attributes.
+   * Sets a cookie's value with optional attributes. Without a domain the
+   * cookie is sent to any host. Without a domain and path it replaces all
+   * cookies of that name, including those set by servers.
    */
   set(
     name: string,
     value: string,
-    options?: { secure?: boolean; expires?: Date; new?: boolean }
+    options?: {
+      secure?: boolean;
+      expires?: Date;
+      domain?: string;
+      path?: string;
+      httpOnly?: boolean;
+      sameSite?: SameSite;
+      /** preserved from original; not used in logic */
+      new?: boolean;
+    }
   ): void {
-    const cookie: CookieRecord =
-      typeof options === "object"
-        ? {
-          value,
-          expires: options.expires,
-          secure: options.secure ?? false,
-          new: options.new ?? false,
-        }
-        : { value };
-
-    if (this.checkNotExpired(name, cookie)) {
-      this.cookies[name] = cookie;
+    if (options?.domain === undefined && options?.path === undefined) {
+      for (const [key, cookie] of this.cookies) {
+        if (cookie.name === name) this.cookies.delete(key);
+      }
     }
+    this.store({
+      name,
+      value,
+      domain: options?.domain?.replace(/^\./, "").toLowerCase(),
+      hostOnly: false,
+      path: options?.path ?? "/",
+      expires: options?.expires,
+      secure: options?.secure ?? false,
+      httpOnly: options?.httpOnly ?? false,
+      sameSite: options?.sameSite,
+      creation: new Date(),
+    });
   }
 
   /** For testing / inspection */
   getExpirationDate(name: string): Date | null {
-    return this.cookies[name] ? this.cookies[name].expires ?? null : null;
-  }
-
-  /**
-   * Internal helper: true if cookie is not expired. Deletes expired entries.
-   */
-  private checkNotExpired(name: string, cookie?: CookieRecord): boolean {
-    const c = cookie ?? this.cookies[name];
-    if (!c) return false;
-
-    const now = new Date();
-    if (c.expires && now > c.expires) {
-      delete this.cookies[name];
-      return false;
-    }
-    return true;
+    return this.newest(name)?.expires ?? null;
   }
 
   /**
-   * Parses response headers, collecting Set-Cookie values.
-   * Only the Expires attribute is honored (parity with original).
+   * Parses response headers, storing the Set-Cookie values the target may set.
    */
-  parseResponse(headers: http.IncomingHttpHeaders): void {
+  parseResponse(headers: http.IncomingHttpHeaders, target: CookieTarget): void {
     const setCookie = headers["set-cookie"];
     if (!setCookie) return;
 
     const list = Array.isArray(setCookie) ? setCookie : [setCookie];
+    const host = target.host.toLowerCase();
 
     list.forEach((c) => {
-      if (!c) return;
-
-      const parts = c.split(";");
-      const nameValue = parts.shift();
-      if (!nameValue) return;
-
-      const eqIdx = nameValue.indexOf("=");
-      const name =
-        eqIdx >= 0 ? nameValue.slice(0, eqIdx).trim() : nameValue.trim();
-      const value = eqIdx >= 0 ? nameValue.slice(eqIdx + 1).trim() : "";
-
-      const options: { expires?: Date } = {};
-
-      parts.forEach((param) => {
-        const p = param.trim();
-        if (p.toLowerCase().startsWith("expires")) {
-          const eq = p.indexOf("=");
-          if (eq >= 0) {
-            const dateStr = p.slice(eq + 1).trim();
-            const d = new Date(dateStr);
-            if (!Number.isNaN(d.getTime())) {
-              options.expires = d;
-            }
-          }
-        }
-      });
+      const cookie = parseSetCookie(c, host, target.path);
+      if (!cookie) return;
+
+      // A Domain attribute must cover the host that sent it (RFC 6265 5.3 step 6)
+      if (!cookie.hostOnly && !domainMatches(host, cookie.domain!)) return;
 
-      this.set(name, value, options);
+      this.store(cookie);
     });
   }
 
   /**
-   * Adds cookies to outgoing request headers (as a single "Cookie" header).
-   * Skips if there are no (non-expired) cookies.
+   * Adds the cookies in scope for the target to outgoing request headers,
+   * after any Cookie header already set. Skips if there are none.
    */
-  composeRequest(headers: http.OutgoingHttpHeaders): void {
-    const asString = this.toString();
-    if (!asString) return;
-    headers["Cookie"] = asString;
+  composeRequest(headers: http.OutgoingHttpHeaders, target: CookieTarget): void {
+    const host = target.host.toLowerCase();
+    const matching = this.live().filter(
+      (cookie) =>
+        (cookie.domain === undefined ||
+          (cookie.hostOnly ? host === cookie.domain : domainMatches(host, cookie.domain))) &&
+        pathMatches(target.path, cookie.path) &&
+        (!cookie.secure || target.secure)
+    );
+    if (matching.length === 0) return;
+
+    // Longer paths first, then the oldest first (RFC 6265 5.4 step 2)
+    matching.sort((a, b) => b.path.length - a.path.length || a.creation.getTime() - b.creation.getTime());
+
+    const pairs = matching.map((cookie) => `${cookie.name}=${cookie.value}`).join("; ");
+    const existing = headers["Cookie"];
+    headers["Cookie"] = existing ? `${existing}; ${pairs}` : pairs;
   }
 
   /**
@@ -128,12 +205,171 @@ export default class Cookies {
    * Filters out expired cookies on the fly.
    */
   toString(): string {
-    const names = Object.keys(this.cookies).filter((n) =>
-      this.checkNotExpired(n)
-    );
-    if (names.length === 0) return "";
-    return names
-      .map((name) => `${name}=${this.cookies[name].value}`)
-      .join(";");
+    return this.live()
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join("; ");
   }
+
+  /**
+   * Returns the unexpired cookies, session cookies included, for saving the
+   * jar between runs. Restore it with Cookies.fromJSON().
+   */
+  toJSON(): CookieJSON[] {
+    return this.live().map((cookie) => ({
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain,
+      hostOnly: cookie.hostOnly,
+      path: cookie.path,
+      expires: cookie.expires?.toISOString(),
+      secure: cookie.secure,
+      httpOnly: cookie.httpOnly,
+      sameSite: cookie.sameSite,
+      creation: cookie.creation.toISOString(),
+    }));
+  }
+
+  /**
+   * Stores a cookie, replacing the one with the same name, domain and path.
+   * An expired cookie deletes that one instead.
+   */
+  private store(cookie: CookieRecord): void {
+    const key = [cookie.name, cookie.domain ?? "", cookie.path].join("\t");
+    const existing = this.cookies.get(key);
+
+    if (cookie.expires && cookie.expires.getTime() <= Date.now()) {
+      this.cookies.delete(key);
+      return;
+    }
+    // A replaced cookie keeps its creation time (RFC 6265 5.3 step 11)
+    if (existing) cookie.creation = existing.creation;
+    this.cookies.set(key, cookie);
+  }
+
+  /**
+   * Internal helper: the most recently created unexpired cookie with the name.
+   */
+  private newest(name: string): CookieRecord | undefined {
+    let found: CookieRecord | undefined;
+    for (const cookie of this.live()) {
+      if (cookie.name === name && (!found || cookie.creation >= found.creation)) found = cookie;
+    }
+    return found;
+  }
+
+  /**
+   * Internal helper: the cookies that have not expired. Deletes expired entries.
+   */
+  private live(): CookieRecord[] {
+    const now = Date.now();
+    const live: CookieRecord[] = [];
+    for (const [key, cookie] of this.cookies) {
+      if (cookie.expires && cookie.expires.getTime() <= now) {
+        this.cookies.delete(key);
+      } else {
+        live.push(cookie);
+      }
+    }
+    return live;
+  }
+}
+
+/**
+ * Parses a Set-Cookie header value (RFC 6265 5.2). Returns undefined for
+ * values that must be ignored.
+ */
+function parseSetCookie(header: string, host: string, requestPath: string): CookieRecord | undefined {
+  const parts = header.split(";");
+  const nameValue = parts.shift() ?? "";
+  const eqIdx = nameValue.indexOf("=");
+  if (eqIdx < 0) return undefined;
+
+  const name = nameValue.slice(0, eqIdx).trim();
+  const value = nameValue.slice(eqIdx + 1).trim();
+  if (!name) return undefined;
+
+  let expires: Date | undefined;
+  let maxAge: number | undefined;
+  let domain: string | undefined;
+  let path: string | undefined;
+  let secure = false;
+  let httpOnly = false;
+  let sameSite: SameSite | undefined;
+
+  for (const part of parts) {
+    const eq = part.indexOf("=");
+    const attribute = (eq >= 0 ? part.slice(0, eq) : part).trim().toLowerCase();
+    const attrValue = eq >= 0 ? part.slice(eq + 1).trim() : "";
+
+    switch (attribute) {
+      case "expires": {
+        const date = new Date(attrValue);
+        if (!Number.isNaN(date.getTime())) expires = date;
+        break;
+      }
+      case "max-age":
+        if (/^-?\d+$/.test(attrValue)) maxAge = Number(attrValue);
+        break;
+      case "domain":
+        if (attrValue) domain = attrValue.replace(/^\./, "").toLowerCase();
+        break;
+      case "path":
+        path = attrValue.startsWith("/") ? attrValue : undefined;
+        break;
+      case "secure":
+        secure = true;
+        break;
+      case "httponly":
+        httpOnly = true;
+        break;
+      case "samesite": {
+        const normalized = attrValue.toLowerCase();
+        if (normalized === "strict") sameSite = "Strict";
+        else if (normalized === "lax") sameSite = "Lax";
+        else if (normalized === "none") sameSite = "None";
+        break;
+      }
+    }
+  }
+
+  // Max-Age wins over Expires; zero or less expires the cookie at once
+  if (maxAge !== undefined) {
+    expires = maxAge <= 0 ? new Date(0) : new Date(Date.now() + maxAge * 1000);
+  }
+
+  return {
+    name,
+    value,
+    domain: domain ?? host,
+    hostOnly: domain === undefined,
+    path: path ?? defaultPath(requestPath),
+    expires,
+    secure,
+    httpOnly,
+    sameSite,
+    creation: new Date(),
+  };
+}
+
+// RFC 6265 5.1.3
+function domainMatches(host: string, domain: string): boolean {
+  if (host === domain) return true;
+  return host.endsWith("." + domain) && isIP(host) === 0;
+}
+
+// RFC 6265 5.1.4
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true;
+  return (
+    requestPath.startsWith(cookiePath) &&
+    (cookiePath.endsWith("/") || requestPath.charAt(cookiePath.length) === "/")
+  );
+}
+
+// RFC 6265 5.1.4: the directory of the request path
+function defaultPath(requestPath: string): string {
+  const path = requestPath.split("?")[0];
+  if (!path.startsWith("/")) return "/";
+  const lastSlash = path.lastIndexOf("/");
+  return lastSlash === 0 ? "/" : path.slice(0, lastSlash);
 }
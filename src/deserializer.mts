@@ -6,17 +6,87 @@ import * as sax from "sax";
 //   // import * as dateFormatterNS from "./date_formatter.js";
 //   // const dateFormatter = (dateFormatterNS as any).default ?? dateFormatterNS;
 import dateFormatter from "./date_formatter.mjs";
+import { XmlRpcFault } from "./fault.mjs";
+import type CustomType from "./customtype.mjs";
+import { createCharsetDecoder, detectCharset, type Charset } from "./charset.mjs";
 
 type XMLRPCValue =
   | null
   | boolean
   | number
+  | bigint
   | string
   | Date
   | Buffer
   | XMLRPCValue[]
   | { [key: string]: XMLRPCValue };
 
+export interface DeserializerOptions {
+  /** Decodes the input in this encoding instead of detecting its charset. */
+  encoding?: BufferEncoding;
+  /** Charset of the Content-Type header, which overrides the XML declaration. */
+  charset?: string;
+  /** Decode <i8> values to BigInt instead of strings. */
+  bigint?: boolean;
+  /** Understand the Apache XML-RPC "ex:" extension types. */
+  extensions?: boolean;
+  /**
+   * Validate the XML-RPC grammar (element nesting, one value per param or
+   * member, names as text) and reject unknown tags instead of ignoring them.
+   */
+  strict?: boolean;
+  /** Bounds on untrusted input, enforced while streaming. */
+  limits?: Limits;
+}
+
+/**
+ * Resource limits for parsing untrusted input. Unset limits are not enforced.
+ */
+export interface Limits {
+  /** Maximum size of the XML body in bytes. */
+  maxBodyBytes?: number;
+  /** Maximum nesting of arrays and structs. */
+  maxDepth?: number;
+  /** Maximum length of any text value, including base64 data. */
+  maxStringLength?: number;
+  /** Maximum number of values in a single array. */
+  maxArrayLength?: number;
+  /** Maximum number of members in a single struct. */
+  maxMembers?: number;
+  /** Whether a <!DOCTYPE> declaration is accepted (default true). */
+  allowDoctype?: boolean;
+}
+
+/**
+ * Raised when the input exceeds one of the configured limits. Parsing stops
+ * as soon as it is detected.
+ */
+export class LimitExceededError extends Error {
+  limit: keyof Limits;
+
+  constructor(limit: keyof Limits, message: string) {
+    super(message);
+    this.name = "LimitExceededError";
+    this.limit = limit;
+  }
+}
+
+// Bytes read at most before the charset is decided; a declaration ends sooner, at its ">"
+const CHARSET_SNIFF_BYTES = 1024;
+
+// An element currently open in the document, tracked for strict validation
+type OpenElement = {
+  name: string;
+  counts: Record<string, number>;
+  elements: number;
+  text: boolean;
+};
+
+/**
+ * Turns the text of a custom value tag (and its attributes) into a value.
+ */
+export type TypeDecoder = (text: string, attributes: Record<string, string>) => any;
+
 type MethodResponseCallback = (error: Error | null, result?: any) => void;
 type MethodCallCallback = (error: Error | null, methodName?: string, params?: any[]) => void;
 
@@ -26,33 +96,96 @@ export default class Deserializer {
   stack: XMLRPCValue[];
   marks: number[];
   data: string[];
+  attributes: Record<string, string>;
   methodname: string | null;
-  encoding: BufferEncoding;
+  encoding: BufferEncoding | undefined;
+  declaredCharset: string | undefined;
+  /** The charset the input was found to be in, once known. */
+  charset: Charset | null;
+  bigint: boolean;
+  extensions: boolean;
+  strict: boolean;
+  path: OpenElement[];
+  limits: Limits;
+  bytes: number;
+  dataLength: number;
+  source: NodeJS.ReadableStream | null;
   value: boolean;
   callback: ((error: Error | null, result?: any) => void) | null;
   error: Error | null;
+  /** Set when the failure came from the XML parser, i.e. the input was not well-formed. */
+  parseFailed: boolean;
+  private rootSeen: boolean;
 
   parser: sax.SAXStream;
 
-  constructor(encoding?: BufferEncoding) {
+  constructor(options?: BufferEncoding | DeserializerOptions) {
+    const opts: DeserializerOptions =
+      typeof options === "string" ? { encoding: options } : options ?? {};
+
     this.type = null;
     this.responseType = null;
     this.stack = [];
     this.marks = [];
     this.data = [];
+    this.attributes = {};
     this.methodname = null;
-    this.encoding = encoding || "utf8";
+    this.encoding = opts.encoding;
+    this.declaredCharset = opts.charset;
+    this.charset = null;
+    this.bigint = opts.bigint ?? false;
+    this.extensions = opts.extensions ?? false;
+    this.strict = opts.strict ?? false;
+    this.path = [];
+    this.limits = opts.limits ?? {};
+    this.bytes = 0;
+    this.dataLength = 0;
+    this.source = null;
     this.value = false;
     this.callback = null;
     this.error = null;
-
-    this.parser = sax.createStream();
-    this.parser.on("opentag", this.onOpentag.bind(this));
-    this.parser.on("closetag", this.onClosetag.bind(this));
+    this.parseFailed = false;
+    this.rootSeen = false;
+
+    // Strict, so input that is not well-formed XML fails as a parse error.
+    // Names are uppercased as the loose parser did, so tags stay case-insensitive.
+    this.parser = sax.createStream(true);
+    this.parser.on("opentag", (node: sax.Tag | sax.QualifiedTag) => this.onOpentag(upperCaseTag(node)));
+    this.parser.on("closetag", (name: string) => this.onClosetag(name.toUpperCase()));
     this.parser.on("text", this.onText.bind(this));
     this.parser.on("cdata", this.onCDATA.bind(this));
     this.parser.on("end", this.onDone.bind(this));
-    this.parser.on("error", this.onError.bind(this));
+    this.parser.on("error", this.onParseError.bind(this));
+    this.parser.on("doctype", this.onDoctype.bind(this));
+  }
+
+  //==============================================================================
+  // Custom type registry
+  //==============================================================================
+
+  private static readonly customTypes = new Map<string, TypeDecoder>();
+
+  /**
+   * Registers a decoder for a non-standard value tag, such as the one a
+   * CustomType subclass serializes to. Tag names match case-insensitively;
+   * the standard XML-RPC tags cannot be overridden.
+   *
+   *   Deserializer.registerType("yourType", (text) => new YourType(text));
+   */
+  static registerType(tagName: string, decoder: TypeDecoder): void {
+    Deserializer.customTypes.set(tagName.toUpperCase(), decoder);
+  }
+
+  /**
+   * Registers a CustomType subclass so its tag is decoded back into an
+   * instance of it, making it round-trip symmetrically.
+   */
+  static registerCustomType(type: new (raw: string) => CustomType): void {
+    Deserializer.registerType(new type("").tagName, (text) => new type(text));
+  }
+
+  static unregisterType(tagName: string): boolean {
+    return Deserializer.customTypes.delete(tagName.toUpperCase());
   }
 
   deserializeMethodResponse(stream: NodeJS.ReadableStream, callback: MethodResponseCallback): void {
@@ -72,9 +205,7 @@ export default class Deserializer {
       }
     };
 
-    stream.setEncoding(this.encoding);
-    stream.on("error", this.onError.bind(this));
-    (stream as any).pipe(this.parser);
+    this.consume(stream);
   }
 
   deserializeMethodCall(stream: NodeJS.ReadableStream, callback: MethodCallCallback): void {
@@ -92,33 +223,106 @@ export default class Deserializer {
       }
     };
 
-    stream.setEncoding(this.encoding);
+    this.consume(stream);
+  }
+
+  private consume(stream: NodeJS.ReadableStream): void {
+    this.source = stream;
+    if (this.encoding) stream.setEncoding(this.encoding);
     stream.on("error", this.onError.bind(this));
-    (stream as any).pipe(this.parser);
+
+    const maxBodyBytes = this.limits.maxBodyBytes;
+    if (maxBodyBytes !== undefined) {
+      stream.on("data", (chunk: string | Buffer) => {
+        this.bytes += typeof chunk === "string" ? Buffer.byteLength(chunk, this.encoding) : chunk.length;
+        if (this.bytes > maxBodyBytes) {
+          this.exceed("maxBodyBytes", `Body exceeds ${maxBodyBytes} bytes`);
+        }
+      });
+    }
+
+    if (this.encoding) {
+      (stream as any).pipe(this.parser);
+      return;
+    }
+
+    // Bytes are held back until the byte order mark and XML declaration are in
+    let head: Buffer | null = Buffer.alloc(0);
+    let decoder: ReturnType<typeof createCharsetDecoder> | null = null;
+    const write = (text: string) => {
+      if (!this.error && text) this.parser.write(text);
+    };
+    const start = (bytes: Buffer) => {
+      head = null;
+      try {
+        const { charset, bom } = detectCharset(bytes, this.declaredCharset);
+        this.charset = charset;
+        decoder = createCharsetDecoder(charset);
+        write(decoder.write(bytes.subarray(bom)));
+      } catch (err) {
+        stream.pause();
+        this.onError(err as Error);
+      }
+    };
+
+    stream.on("data", (chunk: string | Buffer) => {
+      if (this.error) return;
+      if (typeof chunk === "string") {
+        // Text that has been decoded already
+        write(chunk);
+      } else if (head) {
+        const bytes = Buffer.concat([head, chunk]);
+        if (bytes.length < CHARSET_SNIFF_BYTES && !bytes.includes(0x3e)) {
+          head = bytes;
+        } else {
+          start(bytes);
+        }
+      } else {
+        write(decoder!.write(chunk));
+      }
+    });
+    stream.on("end", () => {
+      if (this.error) return;
+      if (head) start(head);
+      if (decoder) write(decoder.end());
+      if (!this.error) this.parser.end();
+    });
+  }
+
+  /**
+   * Reports a limit violation and stops reading the input.
+   */
+  private exceed(limit: keyof Limits, message: string): void {
+    if (this.error) return;
+    if (this.source) {
+      (this.source as any).unpipe(this.parser);
+      this.source.pause();
+    }
+    this.onError(new LimitExceededError(limit, message));
   }
 
   // Called when the SAX parser finishes
   private onDone(): void {
     if (!this.error) {
-      if (this.type === null || this.marks.length) {
+      if (!this.rootSeen) {
+        // Text or nothing at all; the strict parser only rejects text before a root element
+        this.parseFailed = true;
+        this.callback?.(new Error("Document has no root element"));
+      } else if (this.type === null || this.marks.length) {
         this.callback?.(new Error("Invalid XML-RPC message"));
       } else if (this.responseType === "fault") {
-        const createFault = (fault: any) => {
-          const error = new Error(
-            "XML-RPC fault" + (fault?.faultString ? ": " + fault.faultString : "")
-          ) as Error & { code?: any; faultCode?: any; faultString?: any };
-          error.code = fault?.faultCode;
-          error.faultCode = fault?.faultCode;
-          error.faultString = fault?.faultString;
-          return error;
-        };
-        this.callback?.(createFault(this.stack[0]));
+        this.callback?.(XmlRpcFault.fromStruct(this.stack[0]));
       } else {
         this.callback?.(null, this.stack);
       }
     }
   }
 
+  private onParseError(error: Error): void {
+    if (!this.error) this.parseFailed = true;
+    this.onError(error);
+  }
+
   // See TODO in original: low-level vs protocol errors.
   private onError(msg: unknown): void {
     if (!this.error) {
@@ -142,26 +346,93 @@ export default class Deserializer {
   //==============================================================================
 
   private onOpentag(node: sax.Tag | sax.QualifiedTag): void {
-    // The original code compares uppercase tag names.
-    // We keep the behavior unchanged, relying on the sax stream's current settings.
+    // The original code compares uppercase tag names; upperCaseTag() provides them.
     const name = (node as any).name as string;
+    this.rootSeen = true;
+    if (this.strict) {
+      try {
+        this.checkOpentag(name);
+      } catch (e) {
+        this.onError(e);
+      }
+    }
+    const parent = this.path[this.path.length - 1];
+    if (parent) {
+      parent.counts[name] = (parent.counts[name] ?? 0) + 1;
+      parent.elements++;
+    }
+    this.path.push({ name, counts: {}, elements: 0, text: false });
+    this.checkLimits(name, parent);
+
     if (name === "ARRAY" || name === "STRUCT") {
       this.marks.push(this.stack.length);
     }
     this.data = [];
+    this.dataLength = 0;
+    this.attributes = (node.attributes ?? {}) as Record<string, string>;
     this.value = name === "VALUE";
   }
 
   private onText(text: string): void {
-    this.data.push(text);
+    if (this.strict && text.trim() !== "") {
+      const current = this.path[this.path.length - 1];
+      if (current) current.text = true;
+      if (!current || Deserializer.grammar[current.name]) {
+        this.onError(this.grammarError("Unexpected text"));
+      }
+    }
+    this.pushData(text);
   }
 
   private onCDATA(cdata: string): void {
-    this.data.push(cdata);
+    this.pushData(cdata);
+  }
+
+  private onDoctype(): void {
+    if (this.limits.allowDoctype === false) {
+      this.exceed("allowDoctype", "DOCTYPE declarations are not allowed");
+    }
+  }
+
+  private pushData(text: string): void {
+    this.dataLength += text.length;
+    const max = this.limits.maxStringLength;
+    if (max !== undefined && this.dataLength > max) {
+      this.exceed("maxStringLength", `Text exceeds ${max} characters`);
+      return;
+    }
+    this.data.push(text);
+  }
+
+  private checkLimits(name: string, parent: OpenElement | undefined): void {
+    const { maxDepth, maxArrayLength, maxMembers } = this.limits;
+    if (maxDepth !== undefined && (name === "ARRAY" || name === "STRUCT") && this.marks.length >= maxDepth) {
+      this.exceed("maxDepth", `Values are nested deeper than ${maxDepth} levels`);
+    } else if (maxArrayLength !== undefined && name === "VALUE" && parent?.name === "DATA" &&
+      parent.counts.VALUE > maxArrayLength) {
+      this.exceed("maxArrayLength", `Array has more than ${maxArrayLength} values`);
+    } else if (maxMembers !== undefined && name === "MEMBER" && parent?.name === "STRUCT" &&
+      parent.counts.MEMBER > maxMembers) {
+      this.exceed("maxMembers", `Struct has more than ${maxMembers} members`);
+    }
   }
 
   private onClosetag(el: string): void {
+    if (this.strict) {
+      try {
+        this.checkClosetag();
+      } catch (e) {
+        this.onError(e);
+      }
+    }
+    this.path.pop();
+
     const data = this.data.join("");
+    const colon = el.indexOf(":");
+    if (this.extensions && colon >= 0) {
+      this.onExtensionClosetag(el.slice(colon + 1), data, el);
+      return;
+    }
     try {
       switch (el) {
         case "BOOLEAN":
@@ -172,6 +443,7 @@ export default class Deserializer {
           this.endInt(data);
           break;
         case "I8":
+        case "EX:I8":
           this.endI8(data);
           break;
         case "DOUBLE":
@@ -220,8 +492,13 @@ export default class Deserializer {
           // Ignored by design
           break;
         default:
-          console.warn("Ignoring unknown XML-RPC tag:", el);
-          // this.onError(`Unknown XML-RPC tag '${el}'`);
+          if (!this.endCustomType(el, data)) {
+            if (this.strict) {
+              this.onError(`Unknown XML-RPC tag '${el}'`);
+            } else {
+              console.warn("Ignoring unknown XML-RPC tag:", el);
+            }
+          }
           break;
       }
     } catch (e) {
@@ -229,6 +506,145 @@ export default class Deserializer {
     }
   }
 
+  // Apache extension tags, matched by local name whatever the prefix
+  private onExtensionClosetag(el: string, data: string, qualifiedName: string): void {
+    try {
+      switch (el) {
+        case "NIL":
+          this.endNil();
+          break;
+        case "I1":
+        case "I2":
+          this.endInt(data);
+          break;
+        case "I8":
+          this.endI8(data);
+          break;
+        case "FLOAT":
+          this.endDouble(data);
+          break;
+        case "BIGDECIMAL":
+          this.endBigDecimal(data);
+          break;
+        case "BIGINTEGER":
+          this.endBigInteger(data);
+          break;
+        case "DATETIME":
+          this.endDateTime(data);
+          break;
+        case "SERIALIZABLE":
+          this.endBase64(data);
+          break;
+        default:
+          if (!this.endCustomType(qualifiedName, data)) {
+            if (this.strict) {
+              this.onError(`Unknown XML-RPC extension tag '${qualifiedName}'`);
+            } else {
+              console.warn("Ignoring unknown XML-RPC extension tag:", el);
+            }
+          }
+          break;
+      }
+    } catch (e) {
+      this.onError(e);
+    }
+  }
+
+  //==============================================================================
+  // Strict mode validation
+  //==============================================================================
+
+  // Child elements allowed in each container element; VALUE is checked apart
+  private static readonly grammar: Record<string, string[]> = {
+    METHODCALL: ["METHODNAME", "PARAMS"],
+    METHODRESPONSE: ["PARAMS", "FAULT"],
+    PARAMS: ["PARAM"],
+    PARAM: ["VALUE"],
+    FAULT: ["VALUE"],
+    ARRAY: ["DATA"],
+    DATA: ["VALUE"],
+    STRUCT: ["MEMBER"],
+    MEMBER: ["NAME", "VALUE"],
+  };
+
+  private static readonly valueTags = [
+    "BOOLEAN", "INT", "I4", "I8", "EX:I8", "DOUBLE", "STRING", "BASE64",
+    "DATETIME.ISO8601", "NIL", "ARRAY", "STRUCT",
+  ];
+
+  private static readonly extensionTags = [
+    "NIL", "I1", "I2", "I8", "FLOAT", "BIGDECIMAL", "BIGINTEGER", "DATETIME", "SERIALIZABLE",
+  ];
+
+  private checkOpentag(name: string): void {
+    const parent = this.path[this.path.length - 1];
+    if (!parent) {
+      if (name !== "METHODCALL" && name !== "METHODRESPONSE") {
+        throw this.grammarError(`Unexpected root element <${name.toLowerCase()}>`);
+      }
+    } else if (parent.name === "VALUE") {
+      if (parent.elements > 0) {
+        throw this.grammarError("More than one type inside <value>");
+      }
+      if (!this.isValueTag(name)) {
+        throw this.grammarError(`Unknown XML-RPC tag <${name.toLowerCase()}>`);
+      }
+    } else if (!Deserializer.grammar[parent.name]?.includes(name)) {
+      throw this.grammarError(`Unexpected element <${name.toLowerCase()}>`);
+    }
+  }
+
+  private checkClosetag(): void {
+    const current = this.path[this.path.length - 1];
+    const count = (name: string) => current.counts[name] ?? 0;
+    switch (current.name) {
+      case "PARAM":
+      case "FAULT":
+        if (count("VALUE") !== 1) throw this.grammarError("Expected exactly one <value>");
+        break;
+      case "MEMBER":
+        if (count("NAME") !== 1) throw this.grammarError("Expected exactly one <name>");
+        if (count("VALUE") !== 1) throw this.grammarError("Expected exactly one <value>");
+        break;
+      case "ARRAY":
+        if (count("DATA") !== 1) throw this.grammarError("Expected exactly one <data>");
+        break;
+      case "METHODCALL":
+        if (count("METHODNAME") !== 1) throw this.grammarError("Expected exactly one <methodName>");
+        if (count("PARAMS") > 1) throw this.grammarError("Expected at most one <params>");
+        break;
+      case "METHODRESPONSE":
+        if (count("PARAMS") + count("FAULT") !== 1) {
+          throw this.grammarError("Expected exactly one <params> or <fault>");
+        }
+        break;
+      case "VALUE":
+        if (current.elements > 0 && current.text) {
+          throw this.grammarError("Unexpected text next to a typed value");
+        }
+        break;
+    }
+  }
+
+  private isValueTag(name: string): boolean {
+    if (Deserializer.valueTags.includes(name) || Deserializer.customTypes.has(name)) {
+      return true;
+    }
+    const colon = name.indexOf(":");
+    return this.extensions && colon >= 0 && Deserializer.extensionTags.includes(name.slice(colon + 1));
+  }
+
+  /**
+   * Builds a validation error pointing at the current element path and the
+   * parser's position (1-based line and column).
+   */
+  private grammarError(message: string): Error {
+    const parser = this.parser._parser;
+    const path = "/" + this.path.map((e) => e.name.toLowerCase()).join("/");
+    const position = ` (line ${parser.line + 1}, column ${parser.column + 1})`;
+    return new Error(`${message} at ${path}${position}`);
+  }
+
   //==============================================================================
   // End-* helpers (mirroring original semantics)
   //==============================================================================
@@ -292,7 +708,17 @@ export default class Deserializer {
 
     for (let i = 0; i < items.length; i += 2) {
       const key = String(items[i]); // original assumes name/string
-      struct[key] = items[i + 1] as XMLRPCValue;
+      if (key === "__proto__") {
+        // an own property, never the object's prototype
+        Object.defineProperty(struct, key, {
+          value: items[i + 1],
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      } else {
+        struct[key] = items[i + 1] as XMLRPCValue;
+      }
     }
 
     this.stack.splice(mark, this.stack.length - mark);
@@ -317,12 +743,45 @@ export default class Deserializer {
   private endI8(data: string): void {
     if (!Deserializer.isInteger.test(data)) {
       throw new Error("Expected integer (I8) value but got '" + data + "'");
+    } else if (this.bigint) {
+      this.push(BigInt(data));
+      this.value = false;
     } else {
       // keep as string to preserve 64-bit range safety
       this.endString(data);
     }
   }
 
+  private static readonly isDecimal = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+  private endBigDecimal(data: string): void {
+    if (!Deserializer.isDecimal.test(data)) {
+      throw new Error("Expected a decimal (BIGDECIMAL) value but got '" + data + "'");
+    }
+    // kept as string, a double would lose precision
+    this.endString(data);
+  }
+
+  private endBigInteger(data: string): void {
+    if (!Deserializer.isInteger.test(data)) {
+      throw new Error("Expected integer (BIGINTEGER) value but got '" + data + "'");
+    } else if (this.bigint) {
+      this.push(BigInt(data));
+      this.value = false;
+    } else {
+      this.endString(data);
+    }
+  }
+
+  // Returns false if no decoder is registered for the tag
+  private endCustomType(el: string, data: string): boolean {
+    const decoder = Deserializer.customTypes.get(el.toUpperCase());
+    if (!decoder) return false;
+    this.push(decoder(data, this.attributes));
+    this.value = false;
+    return true;
+  }
+
   private endValue(data: string): void {
     if (this.value) {
       this.endString(data);
@@ -349,3 +808,11 @@ export default class Deserializer {
     this.type = "methodcall";
   }
 }
+
+// The tag with its name and attribute names uppercased, as the loose parser reported them
+function upperCaseTag(node: sax.Tag | sax.QualifiedTag): sax.Tag | sax.QualifiedTag {
+  const attributes = Object.fromEntries(
+    Object.entries(node.attributes ?? {}).map(([name, value]) => [name.toUpperCase(), value])
+  );
+  return { ...node, name: node.name.toUpperCase(), attributes } as sax.Tag | sax.QualifiedTag;
+}
@@ -0,0 +1,766 @@
+// dispatcher.mts
+import * as http from "http";
+import type * as tls from "tls";
+import { Readable } from "stream";
+import { EventEmitter } from "events";
+import Serializer, { DEFAULT_STREAM_THRESHOLD, type SerializerOptions } from "./serializer.mjs";
+import Deserializer, { LimitExceededError, type Limits } from "./deserializer.mjs";
+import { FaultCode, XmlRpcFault } from "./fault.mjs";
+import { authenticate, type AuthOptions } from "./auth.mjs";
+import { parseCookieHeader } from "./cookies.mjs";
+import {
+  compressInto,
+  compressionOptions,
+  createDecoder,
+  decodeBody,
+  negotiateCoding,
+  type CompressionOptions,
+  type ContentCoding,
+} from "./compression.mjs";
+import {
+  UnsupportedCharsetError,
+  charsetOf,
+  contentType,
+  normalizeCharset,
+  type Charset,
+} from "./charset.mjs";
+import { manageSessions, type Session, type SessionOptions } from "./session.mjs";
+import MethodRegistry, { type MethodHandler, type MethodInfo } from "./method_registry.mjs";
+
+type Reply = (err: any, value?: any) => void;
+
+type ResponseWriteOptions = {
+  /** Responses above this many bytes are streamed. */
+  threshold: number;
+  /** Whether compression is on, so that responses depend on Accept-Encoding. */
+  compression: boolean;
+  /** Coding negotiated with the client, if compression is on. */
+  coding?: ContentCoding;
+  compressionThreshold: number;
+  /** Charset the response is encoded in. */
+  charset: Charset;
+};
+
+// Event names EventEmitter or the server itself use that are not methods
+const RESERVED_EVENTS = ["NotFound", "error", "newListener", "removeListener"];
+
+/**
+ * Options of a Dispatcher, shared by Server and createHandler().
+ */
+export interface HandlerOptions {
+  /** Milliseconds to wait for a method to reply before answering with a fault. */
+  methodTimeout?: number;
+  /**
+   * Answer unknown methods and malformed requests with an empty 404 instead
+   * of a fault, as earlier versions did.
+   */
+  legacyNotFound?: boolean;
+  /** Responses above this many bytes are sent chunked while being serialized. */
+  streamThreshold?: number;
+  /** Decode <i8> params to BigInt instead of strings. */
+  bigint?: boolean;
+  /** Numbers outside the int32 range are sent as <i8> ("promote", default) or rejected ("throw"). */
+  integerOverflow?: SerializerOptions["integerOverflow"];
+  /** Understand and send the Apache XML-RPC "ex:" extension types. */
+  extensions?: boolean;
+  /** Validate the request grammar instead of parsing leniently. */
+  strict?: boolean;
+  /**
+   * Bounds on request bodies. A body over maxBodyBytes is answered with 413,
+   * other violations with an invalid request fault.
+   */
+  limits?: Limits;
+  /** Require Basic or Bearer credentials; failed checks are answered with 401. */
+  auth?: AuthOptions;
+  /** Track callers in sessions identified by a signed cookie. */
+  session?: SessionOptions;
+  /**
+   * Compress responses above a threshold for clients accepting gzip or
+   * deflate. Compressed requests are decompressed regardless.
+   */
+  compression?: boolean | CompressionOptions;
+  /**
+   * Charset of responses, e.g. "ISO-8859-1". By default a response is sent
+   * in the charset of its request.
+   */
+  encoding?: string;
+}
+
+/**
+ * Details about the call being handled, passed to method handlers.
+ */
+export interface MethodContext {
+  methodName: string;
+  request: http.IncomingMessage;
+  socket: SocketInfo;
+  /** Cookies sent with the request, by name. */
+  cookies: Record<string, string>;
+  /** Headers added to the response; handlers and middleware may set them. */
+  responseHeaders: http.OutgoingHttpHeaders;
+  /** Whatever the auth verifier resolved with, if the caller authenticated. */
+  principal?: any;
+  /** The caller's session, when sessions are enabled. */
+  session?: Session;
+}
+
+/**
+ * The connection a call arrived on.
+ */
+export interface SocketInfo {
+  remoteAddress?: string;
+  remotePort?: number;
+  /** True over TLS. */
+  encrypted: boolean;
+  /** The certificate the client presented over TLS, if any. */
+  peerCertificate?: tls.PeerCertificate;
+}
+
+/**
+ * A call on its way through the server middleware. After next() resolves,
+ * either result or fault is set; a middleware may replace them, or set
+ * status to answer with that HTTP status and an empty body instead.
+ */
+export interface ServerCallContext extends MethodContext {
+  params: any[];
+  response: http.ServerResponse;
+  result?: any;
+  fault?: XmlRpcFault;
+  status?: number;
+}
+
+/**
+ * Server middleware, run around method dispatch in the order added. Throwing
+ * (or rejecting with) a fault answers the call with it without running the
+ * method; an error whose statusCode is an HTTP error status (400-599)
+ * answers with that status instead.
+ */
+export type ServerMiddleware = (ctx: ServerCallContext, next: () => Promise<void>) => any;
+
+/**
+ * Express/Connect-style request handler answering XML-RPC calls, as returned
+ * by createHandler(). Methods and middleware are registered on its dispatcher.
+ */
+export interface RequestHandler {
+  (request: http.IncomingMessage, response: http.ServerResponse, next?: (err?: any) => void): void;
+  dispatcher: Dispatcher;
+}
+
+/**
+ * Routes XML-RPC calls to registered methods and listeners and answers them,
+ * independently of any HTTP server. Server builds on it; createHandler()
+ * mounts it into an existing one.
+ *
+ * Usage:
+ *   const dispatcher = new Dispatcher({ methodTimeout: 5000 });
+ *   dispatcher.addMethod("sum", ([a, b]) => a + b);
+ *   http.createServer(createHandler(dispatcher)).listen(9090);
+ */
+export class Dispatcher extends EventEmitter {
+  public methods: MethodRegistry;
+  public middleware: ServerMiddleware[] = [];
+  protected readonly options: HandlerOptions;
+
+  constructor(options: HandlerOptions = {}) {
+    super();
+
+    // Throws for charsets that cannot be encoded
+    if (options.encoding !== undefined) normalizeCharset(options.encoding);
+
+    this.options = options;
+    this.methods = new MethodRegistry();
+    this.methods.set("system.listMethods", {
+      help: "Returns the names of all methods exposed by this server.",
+      signature: [["array"]],
+    });
+    this.methods.set("system.methodSignature", {
+      help: "Returns the known signatures of a method, or 'undef' if none are known.",
+      signature: [["array", "string"]],
+    });
+    this.methods.set("system.methodHelp", {
+      help: "Returns the help text of a method.",
+      signature: [["string", "string"]],
+    });
+    this.methods.set("system.multicall", {
+      help: "Executes several calls in one request and returns their results in order.",
+      signature: [["array", "array"]],
+    });
+
+    // Sessions and authentication run ahead of any middleware added with use()
+    if (options.session) {
+      this.middleware.push(manageSessions(options.session));
+    }
+    if (options.auth) {
+      this.middleware.push(authenticate(options.auth));
+    }
+  }
+
+  /**
+   * Answers an XML-RPC request. The call is read from the request stream
+   * unless its body is given, e.g. when a framework has already consumed it;
+   * a given body is expected to be decompressed already.
+   */
+  handleRequest(request: http.IncomingMessage, response: http.ServerResponse, body?: Buffer | string): void {
+    const opts = this.options;
+    const maxBodyBytes = opts.limits?.maxBodyBytes;
+    const length = body !== undefined ? Buffer.byteLength(body) : Number(request.headers["content-length"]);
+    if (maxBodyBytes !== undefined && length > maxBodyBytes) {
+      if (body === undefined) rejectUnread(request, response);
+      response.writeHead(413);
+      response.end();
+      return;
+    }
+
+    let source: Readable = request;
+    if (body !== undefined) {
+      source = Readable.from([body]);
+    } else {
+      try {
+        const decoder = createDecoder(request.headers["content-encoding"]);
+        if (decoder) source = decodeBody(request, decoder);
+      } catch {
+        // Not a coding we can decompress
+        rejectUnread(request, response);
+        response.writeHead(415);
+        response.end();
+        return;
+      }
+    }
+
+    const compression = compressionOptions(opts.compression);
+    const writeOptions: ResponseWriteOptions = {
+      threshold: opts.streamThreshold ?? DEFAULT_STREAM_THRESHOLD,
+      compression: compression !== undefined,
+      coding: compression && negotiateCoding(request.headers["accept-encoding"]),
+      compressionThreshold: compression?.threshold ?? 0,
+      charset: "UTF-8",
+    };
+
+    const deserializer = new Deserializer({
+      charset: charsetOf(request.headers["content-type"]),
+      bigint: opts.bigint,
+      extensions: opts.extensions,
+      strict: opts.strict,
+      limits: opts.limits,
+    });
+    deserializer.deserializeMethodCall(
+      source,
+      (error: Error | null, methodName?: string, params?: any[]) => {
+        const ctx: ServerCallContext = {
+          ...createContext(methodName ?? "", request),
+          params: params ?? [],
+          response,
+        };
+
+        // Methods reply at most once, and within methodTimeout if configured
+        let replied = false;
+        let timer: NodeJS.Timeout | undefined;
+
+        // Headers set by handlers may be invalid; that is answered with a fault
+        const applyHeaders = (): XmlRpcFault | undefined => {
+          try {
+            setHeaders(response, ctx.responseHeaders);
+            return undefined;
+          } catch (headerError) {
+            return new XmlRpcFault(FaultCode.INTERNAL_ERROR, "Invalid response header: " + (headerError as Error).message);
+          }
+        };
+
+        const reply: Reply = (err, value) => {
+          if (replied) return;
+          replied = true;
+          if (timer) clearTimeout(timer);
+          const headerFault = applyHeaders();
+          if (headerFault) err = headerFault;
+
+          const serializerOptions: SerializerOptions = {
+            integerOverflow: opts.integerOverflow,
+            extensions: opts.extensions,
+          };
+          const charset = opts.encoding !== undefined
+            ? normalizeCharset(opts.encoding)
+            : deserializer.charset ?? "UTF-8";
+          // UTF-8 needs no declaration, which keeps responses as they were
+          const encoding = charset === "UTF-8" ? undefined : charset;
+          writeOptions.charset = charset;
+          const chunks =
+            err != null
+              ? Serializer.faultChunks(err, encoding, serializerOptions)
+              : Serializer.methodResponseChunks(value, encoding, serializerOptions);
+
+          writeResponse(response, chunks, writeOptions);
+        };
+
+        // Answers with a bare HTTP status instead of a method response
+        const replyStatus = (status: number) => {
+          if (replied) return;
+          const headerFault = applyHeaders();
+          if (headerFault) {
+            reply(headerFault);
+            return;
+          }
+          replied = true;
+          if (timer) clearTimeout(timer);
+          response.writeHead(status);
+          response.end();
+        };
+
+        const notFound = () => {
+          this.emit("NotFound", methodName, params);
+          if (opts.legacyNotFound) {
+            replyStatus(404);
+          } else {
+            reply(new XmlRpcFault(FaultCode.METHOD_NOT_FOUND, "Method not found: " + ctx.methodName));
+          }
+        };
+
+        if (error instanceof LimitExceededError) {
+          if (body === undefined) rejectUnread(request, response);
+          if (error.limit === "maxBodyBytes") {
+            replyStatus(413);
+          } else {
+            reply(new XmlRpcFault(FaultCode.INVALID_REQUEST, error.message));
+          }
+          return;
+        }
+
+        if (error) {
+          if (opts.legacyNotFound) {
+            notFound();
+          } else if (error instanceof UnsupportedCharsetError) {
+            reply(new XmlRpcFault(FaultCode.UNSUPPORTED_ENCODING, error.message));
+          } else {
+            reply(new XmlRpcFault(
+              deserializer.parseFailed ? FaultCode.PARSE_ERROR : FaultCode.INVALID_REQUEST,
+              error.message
+            ));
+          }
+          return;
+        }
+
+        if (opts.methodTimeout !== undefined) {
+          timer = setTimeout(() => {
+            reply(new XmlRpcFault(FaultCode.APPLICATION_ERROR, "Method timed out: " + ctx.methodName));
+          }, opts.methodTimeout);
+        }
+
+        this.runMiddleware(ctx, opts.legacyNotFound ?? false).then(() => {
+          if (ctx.status !== undefined && ctx.status !== 200) {
+            replyStatus(ctx.status);
+          } else {
+            reply(ctx.fault ?? null, ctx.result);
+          }
+        }).catch(() => {
+          // The reply could not be sent, e.g. for a status set to something invalid
+          if (response.headersSent) {
+            response.destroy();
+          } else {
+            response.writeHead(500);
+            response.end();
+          }
+        });
+      }
+    );
+  }
+
+  /**
+   * Adds a middleware run around every call, in the order added. Chainable.
+   *
+   *   srv.use(async (ctx, next) => {
+   *     const started = Date.now();
+   *     await next();
+   *     log(ctx.methodName, ctx.fault ? ctx.fault.faultCode : "ok", Date.now() - started);
+   *   });
+   */
+  use(middleware: ServerMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Registers a method implementation along with optional metadata.
+   * Takes precedence over listeners registered for the same name. Chainable.
+   *
+   *   srv.addMethod("sum", async ([a, b]) => a + b, { signature: [["int", "int", "int"]] });
+   */
+  addMethod(name: string, handler: MethodHandler, info: MethodInfo = {}): this {
+    this.methods.set(name, { ...info, handler });
+    return this;
+  }
+
+  /**
+   * Removes a method registered through addMethod() or describeMethod().
+   * Listeners registered with on() are left untouched. Chainable.
+   */
+  removeMethod(name: string): this {
+    this.methods.delete(name);
+    return this;
+  }
+
+  /**
+   * Attaches help text and signatures to a method, reported through
+   * system.methodHelp and system.methodSignature. Chainable.
+   *
+   *   srv.describeMethod("sum", { help: "Adds two numbers", signature: [["int", "int", "int"]] });
+   */
+  describeMethod(name: string, info: MethodInfo): this {
+    this.methods.set(name, info);
+    return this;
+  }
+
+  /**
+   * Returns the sorted names of every method that can currently be called:
+   * methods with listeners, described methods and the system.* built-ins.
+   */
+  listMethods(): string[] {
+    const names = new Set(this.methods.names());
+    for (const event of this.eventNames()) {
+      if (typeof event === "string" && !RESERVED_EVENTS.includes(event)) {
+        names.add(event);
+      }
+    }
+    return Array.from(names).sort();
+  }
+
+  /**
+   * Runs the middleware chain with method dispatch at its end. Resolves once
+   * ctx holds the result, the fault or the HTTP status to answer with.
+   */
+  private runMiddleware(ctx: ServerCallContext, legacyNotFound: boolean): Promise<void> {
+    const middleware = this.middleware.slice();
+
+    const next = (index: number): Promise<void> => {
+      if (index < middleware.length) {
+        return Promise.resolve()
+          .then(() => middleware[index](ctx, () => next(index + 1)))
+          .then(() => undefined);
+      }
+
+      return new Promise((resolve) => {
+        let settled = false;
+        const settle = (err: any, value?: any) => {
+          if (settled) return;
+          settled = true;
+          if (err != null) {
+            ctx.fault = XmlRpcFault.from(err);
+          } else {
+            ctx.result = value;
+          }
+          resolve();
+        };
+
+        this.dispatch(ctx.methodName, ctx.params, ctx, settle, () => {
+          this.emit("NotFound", ctx.methodName, ctx.params);
+          if (legacyNotFound) {
+            settled = true;
+            ctx.status = 404;
+            resolve();
+          } else {
+            settle(new XmlRpcFault(FaultCode.METHOD_NOT_FOUND, "Method not found: " + ctx.methodName));
+          }
+        });
+      });
+    };
+
+    return next(0).catch((err) => {
+      if (isErrorStatus(err?.statusCode)) {
+        ctx.status = err.statusCode;
+      } else {
+        ctx.fault = XmlRpcFault.from(err);
+      }
+    });
+  }
+
+  /**
+   * Routes a call to its listener, falling back to the built-in system.*
+   * methods. Calls notFound when neither can answer it.
+   */
+  private dispatch(
+    methodName: string,
+    params: any[],
+    context: MethodContext,
+    reply: Reply,
+    notFound: () => void
+  ): void {
+    const entry = this.methods.get(methodName);
+    if (
+      entry?.signature &&
+      (entry.handler || this.listenerCount(methodName) > 0 || methodName.startsWith("system.")) &&
+      !entry.signature.some((signature) => matchesSignature(params, signature))
+    ) {
+      reply(new XmlRpcFault(FaultCode.INVALID_PARAMS, "Invalid params for " + methodName));
+      return;
+    }
+
+    const handler = entry?.handler;
+    if (handler) {
+      let result: any;
+      try {
+        result = handler(params, context);
+      } catch (err) {
+        reply(err);
+        return;
+      }
+      Promise.resolve(result).then(
+        (value) => reply(null, value),
+        (err) => reply(err ?? new Error("Method handler rejected"))
+      );
+      return;
+    }
+
+    if (methodName && this.listenerCount(methodName) > 0) {
+      // The handler signature mirrors the original:
+      // listener(null, params, (error, value) => { ... })
+      try {
+        this.emit(methodName, null, params, reply, context);
+      } catch (err) {
+        reply(err);
+      }
+      return;
+    }
+
+    switch (methodName) {
+      case "system.multicall":
+        this.multicall(params[0], context, reply);
+        break;
+      case "system.listMethods":
+        reply(null, this.listMethods());
+        break;
+      case "system.methodSignature":
+      case "system.methodHelp": {
+        const name = params[0];
+        if (typeof name !== "string" || !this.listMethods().includes(name)) {
+          reply(new XmlRpcFault(FaultCode.INVALID_PARAMS, "Unknown method: " + String(name)));
+        } else if (methodName === "system.methodHelp") {
+          reply(null, this.methods.get(name)?.help ?? "");
+        } else {
+          reply(null, this.methods.get(name)?.signature ?? "undef");
+        }
+        break;
+      }
+      default:
+        notFound();
+        break;
+    }
+  }
+
+  /**
+   * Handles a system.multicall request by dispatching every entry to its
+   * listener. Each result is wrapped in a one-element array, each failure is
+   * returned as a fault struct in its place.
+   */
+  private multicall(calls: any, context: MethodContext, reply: Reply): void {
+    if (!Array.isArray(calls)) {
+      reply(new XmlRpcFault(FaultCode.INVALID_PARAMS, "system.multicall expects an array of calls"));
+      return;
+    }
+
+    const results: any[] = new Array(calls.length);
+    let pending = calls.length;
+    if (pending === 0) {
+      reply(null, results);
+      return;
+    }
+
+    calls.forEach((call, index) => {
+      let settled = false;
+      const settle = (err: any, value?: any) => {
+        if (settled) return;
+        settled = true;
+        results[index] = err != null ? XmlRpcFault.from(err).toStruct() : [value];
+        if (--pending === 0) reply(null, results);
+      };
+
+      const methodName = call?.methodName;
+      const params = Array.isArray(call?.params) ? call.params : [];
+
+      if (typeof methodName !== "string") {
+        settle(new XmlRpcFault(FaultCode.INVALID_REQUEST, "Missing methodName in system.multicall entry"));
+      } else if (methodName === "system.multicall") {
+        settle(new XmlRpcFault(FaultCode.INVALID_REQUEST, "Recursive system.multicall is not allowed"));
+      } else {
+        this.dispatch(methodName, params, { ...context, methodName }, settle, () => {
+          this.emit("NotFound", methodName, params);
+          settle(new XmlRpcFault(FaultCode.METHOD_NOT_FOUND, "Method not found: " + methodName));
+        });
+      }
+    });
+  }
+}
+
+/**
+ * Creates a request handler for an existing http(s) server or an
+ * Express/Connect app, serving the given dispatcher or a new one built from
+ * the options. Within a framework (when next is passed) requests other than
+ * POST are left to the following routes. A body already read into
+ * request.body as a Buffer or string is used instead of the stream.
+ *
+ *   const rpc = createHandler({ methodTimeout: 5000 });
+ *   rpc.dispatcher.addMethod("sum", ([a, b]) => a + b);
+ *   app.post("/RPC2", express.raw({ type: "text/xml" }), rpc);
+ */
+export function createHandler(options: HandlerOptions | Dispatcher = {}): RequestHandler {
+  const dispatcher = options instanceof Dispatcher ? options : new Dispatcher(options);
+
+  const handler = (
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+    next?: (err?: any) => void
+  ): void => {
+    if (next && request.method !== "POST") {
+      next();
+      return;
+    }
+
+    const body = (request as any).body;
+    if (Buffer.isBuffer(body) || typeof body === "string") {
+      dispatcher.handleRequest(request, response, body);
+    } else if (request.readableEnded) {
+      // Parsed into something else (e.g. JSON) by a body parser ahead of us
+      const err = new Error("The request body was consumed before reaching the XML-RPC handler");
+      if (next) {
+        next(err);
+      } else {
+        response.writeHead(500);
+        response.end();
+      }
+    } else {
+      dispatcher.handleRequest(request, response);
+    }
+  };
+
+  return Object.assign(handler, { dispatcher });
+}
+
+/**
+ * Builds the context of a call from the request it arrived with.
+ */
+function createContext(methodName: string, request: http.IncomingMessage): MethodContext {
+  const socket = request.socket as tls.TLSSocket;
+  const encrypted = socket.encrypted === true;
+  const certificate = encrypted ? socket.getPeerCertificate() : undefined;
+
+  return {
+    methodName,
+    request,
+    socket: {
+      remoteAddress: socket.remoteAddress,
+      remotePort: socket.remotePort,
+      encrypted,
+      // getPeerCertificate() returns an empty object when none was presented
+      peerCertificate: certificate && Object.keys(certificate).length > 0 ? certificate : undefined,
+    },
+    cookies: parseCookieHeader(request.headers.cookie),
+    responseHeaders: {},
+  };
+}
+
+// Statuses a thrown error may answer with instead of a fault; a success or
+// redirect status would present the failed call as something else
+function isErrorStatus(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 400 && (value as number) <= 599;
+}
+
+/**
+ * Sets the headers a call added to its response. Throws without setting any
+ * of them if one is not a valid header.
+ */
+function setHeaders(response: http.ServerResponse, headers: http.OutgoingHttpHeaders): void {
+  const entries = Object.entries(headers).filter(([, value]) => value !== undefined);
+  for (const [name, value] of entries) {
+    http.validateHeaderName(name);
+    for (const item of [value].flat()) http.validateHeaderValue(name, String(item));
+  }
+  for (const [name, value] of entries) {
+    response.setHeader(name, value!);
+  }
+}
+
+/**
+ * Prepares the response to a request whose body was not read to the end:
+ * the connection cannot be reused and is dropped once the response is sent.
+ */
+export function rejectUnread(request: http.IncomingMessage, response: http.ServerResponse): void {
+  response.setHeader("Connection", "close");
+  response.on("finish", () => request.destroy());
+}
+
+/**
+ * Writes a method response, streaming it with chunked transfer encoding when
+ * it exceeds the threshold and compressing it if a coding was negotiated.
+ * If the value cannot be serialized before anything was sent, a fault is
+ * sent instead.
+ */
+function writeResponse(
+  response: http.ServerResponse,
+  chunks: Iterable<string>,
+  options: ResponseWriteOptions
+): void {
+  Serializer.writeDocument(
+    chunks,
+    response,
+    {
+      threshold: options.threshold,
+      charset: options.charset,
+      onHead: (contentLength) => {
+        const headers: http.OutgoingHttpHeaders = { "Content-Type": contentType(options.charset) };
+        // Also when not compressed, so caches keep the variants apart
+        if (options.compression) headers["Vary"] = "Accept-Encoding";
+
+        if (options.coding && (contentLength === undefined || contentLength >= options.compressionThreshold)) {
+          headers["Content-Encoding"] = options.coding;
+          response.writeHead(200, headers);
+          return compressInto(options.coding, response);
+        }
+
+        if (contentLength !== undefined) headers["Content-Length"] = contentLength;
+        response.writeHead(200, headers);
+      },
+    },
+    (error) => {
+      if (error && !response.headersSent) {
+        const fault = new XmlRpcFault(FaultCode.INTERNAL_ERROR, "Failed to serialize the method response");
+        const encoding = options.charset === "UTF-8" ? undefined : options.charset;
+        writeResponse(response, Serializer.faultChunks(fault, encoding), options);
+      }
+    }
+  );
+}
+
+/**
+ * True if the params fit a declared signature ([returnType, ...paramTypes]).
+ * Types this server does not know about match any value.
+ */
+function matchesSignature(params: any[], signature: string[]): boolean {
+  const types = signature.slice(1);
+  return types.length === params.length && types.every((type, i) => matchesType(params[i], type));
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type.toLowerCase()) {
+    case "int":
+    case "i4":
+      return Number.isInteger(value);
+    case "i8":
+      return Number.isInteger(value) || typeof value === "bigint" ||
+        (typeof value === "string" && /^-?\d+$/.test(value));
+    case "double":
+      return typeof value === "number";
+    case "boolean":
+      return typeof value === "boolean";
+    case "string":
+      return typeof value === "string";
+    case "base64":
+      return Buffer.isBuffer(value);
+    case "datetime.iso8601":
+      return value instanceof Date;
+    case "array":
+      return Array.isArray(value);
+    case "struct":
+      return value !== null && typeof value === "object" && !Array.isArray(value) &&
+        !(value instanceof Date) && !Buffer.isBuffer(value);
+    case "nil":
+      return value === null;
+    default:
+      return true;
+  }
+}
@@ -0,0 +1,89 @@
+// extensions.mts
+import CustomType from "./customtype.mjs";
+import { DateFormatter } from "./date_formatter.mjs";
+
+/**
+ * Namespace of the Apache XML-RPC vendor extensions, declared as "ex" on the
+ * root element when the extensions mode is enabled.
+ */
+export const EXTENSIONS_NAMESPACE = "http://ws.apache.org/xmlrpc/namespaces/extensions";
+
+/** <ex:i1>: a Java byte. */
+export class ExI1 extends CustomType {
+  constructor(value: number) {
+    super(String(value));
+  }
+
+  get tagName(): string {
+    return "ex:i1";
+  }
+}
+
+/** <ex:i2>: a Java short. */
+export class ExI2 extends CustomType {
+  constructor(value: number) {
+    super(String(value));
+  }
+
+  get tagName(): string {
+    return "ex:i2";
+  }
+}
+
+/** <ex:float>: a Java float. */
+export class ExFloat extends CustomType {
+  constructor(value: number) {
+    super(String(value));
+  }
+
+  get tagName(): string {
+    return "ex:float";
+  }
+}
+
+/** <ex:bigdecimal>: a java.math.BigDecimal, given as its decimal string. */
+export class ExBigDecimal extends CustomType {
+  constructor(value: string | number) {
+    super(String(value));
+  }
+
+  get tagName(): string {
+    return "ex:bigdecimal";
+  }
+}
+
+/** <ex:biginteger>: a java.math.BigInteger. */
+export class ExBigInteger extends CustomType {
+  constructor(value: bigint | string | number) {
+    super(String(value));
+  }
+
+  get tagName(): string {
+    return "ex:biginteger";
+  }
+}
+
+// Apache formats ex:dateTime as xs:dateTime, always with milliseconds
+const exDateFormatter = new DateFormatter({ colons: true, hyphens: true, local: false, ms: true });
+
+/** <ex:dateTime>: a date with time zone and milliseconds. */
+export class ExDateTime extends CustomType {
+  constructor(value: Date) {
+    super(exDateFormatter.encodeIso8601(value));
+  }
+
+  get tagName(): string {
+    return "ex:dateTime";
+  }
+}
+
+/** <ex:serializable>: a serialized Java object, carried as base64. */
+export class ExSerializable extends CustomType {
+  constructor(value: Buffer) {
+    super(value.toString("base64"));
+  }
+
+  get tagName(): string {
+    return "ex:serializable";
+  }
+}
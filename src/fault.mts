@@ -0,0 +1,76 @@
+// fault.mts
+
+/**
+ * Fault codes from the XML-RPC "specification for fault code interoperability".
+ * See http://xmlrpc-epi.sourceforge.net/specs/rfc.fault_codes.php
+ */
+export const FaultCode = {
+  PARSE_ERROR: -32700,
+  UNSUPPORTED_ENCODING: -32701,
+  INVALID_CHARACTER: -32702,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  APPLICATION_ERROR: -32500,
+  SYSTEM_ERROR: -32400,
+  TRANSPORT_ERROR: -32300,
+} as const;
+
+export type FaultCode = (typeof FaultCode)[keyof typeof FaultCode];
+
+/** The struct carried inside a <fault> element. */
+export interface FaultStruct {
+  faultCode: number;
+  faultString: string;
+}
+
+/**
+ * An XML-RPC fault. Clients reject with it when the server answers with a
+ * <fault>, and servers turn a thrown XmlRpcFault into the matching response.
+ *
+ *   throw new XmlRpcFault(FaultCode.INVALID_PARAMS, "Expected two integers");
+ */
+export class XmlRpcFault extends Error {
+  faultCode: number;
+  faultString: string;
+  /** Alias of faultCode kept for code written against earlier versions. */
+  code: number;
+
+  constructor(faultCode: number, faultString: string) {
+    super("XML-RPC fault" + (faultString ? ": " + faultString : ""));
+    this.name = "XmlRpcFault";
+    this.faultCode = faultCode;
+    this.faultString = faultString;
+    this.code = faultCode;
+  }
+
+  /**
+   * Builds a fault from a received fault struct.
+   */
+  static fromStruct(struct: any): XmlRpcFault {
+    return new XmlRpcFault(struct?.faultCode, struct?.faultString);
+  }
+
+  /**
+   * Normalizes anything thrown or passed as an error into a fault. Errors
+   * keep their message as faultString and a numeric `code` as faultCode.
+   */
+  static from(err: any): XmlRpcFault {
+    if (err instanceof XmlRpcFault) return err;
+
+    const faultCode =
+      typeof err?.faultCode === "number" ? err.faultCode
+        : typeof err?.code === "number" ? err.code
+          : FaultCode.APPLICATION_ERROR;
+    const faultString =
+      typeof err?.faultString === "string" ? err.faultString
+        : typeof err?.message === "string" ? err.message
+          : String(err);
+    return new XmlRpcFault(faultCode, faultString);
+  }
+
+  toStruct(): FaultStruct {
+    return { faultCode: this.faultCode, faultString: this.faultString };
+  }
+}
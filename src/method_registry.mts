@@ -0,0 +1,59 @@
+// method_registry.mts
+import type { MethodContext } from "./dispatcher.mjs";
+
+/**
+ * Descriptive metadata for an exposed method, as reported by the
+ * system.methodHelp and system.methodSignature introspection calls.
+ */
+export interface MethodInfo {
+  help?: string;
+  /** Each signature lists the return type first, then the param types. */
+  signature?: string[][];
+}
+
+/**
+ * A method implementation registered through Server.addMethod(). The
+ * returned value (or the value the returned promise resolves to) becomes the
+ * method response; a throw or rejection becomes a fault.
+ */
+export type MethodHandler = (params: any[], context: MethodContext) => any;
+
+/** Registry entry: metadata plus the handler, if registered with one. */
+export interface MethodEntry extends MethodInfo {
+  handler?: MethodHandler;
+}
+
+/**
+ * Keeps track of the methods a server exposes along with their metadata.
+ */
+export default class MethodRegistry {
+  private methods: Map<string, MethodEntry>;
+
+  constructor() {
+    this.methods = new Map();
+  }
+
+  /**
+   * Registers a method, merging the given metadata over any already known.
+   */
+  set(name: string, info: MethodEntry = {}): void {
+    this.methods.set(name, { ...this.methods.get(name), ...info });
+  }
+
+  get(name: string): MethodEntry | undefined {
+    return this.methods.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.methods.has(name);
+  }
+
+  delete(name: string): boolean {
+    return this.methods.delete(name);
+  }
+
+  /** Names of all registered methods, in registration order. */
+  names(): string[] {
+    return Array.from(this.methods.keys());
+  }
+}
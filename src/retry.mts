@@ -0,0 +1,63 @@
+// retry.mts
+
+/**
+ * When and how often the client repeats a failed call. Only calls to
+ * idempotent methods are ever retried, since a call that failed on the way
+ * back may already have run on the server.
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt. */
+  retries: number;
+  /** Delay before the first retry in ms, doubled (see factor) for each further one. Default 100. */
+  minDelay?: number;
+  /** Upper bound of a single delay in ms. Default 10000. */
+  maxDelay?: number;
+  /** Growth of the delay per retry. Default 2. */
+  factor?: number;
+  /** Fraction (0-1) of each delay that is randomized. Default 0.5. */
+  jitter?: number;
+  /** Methods that are safe to call again. Calls can also be marked through CallOptions.idempotent. */
+  idempotentMethods?: string[];
+  /**
+   * Decides whether a failed attempt (1-based) is retried. Defaults to
+   * retryableError(): timeouts, connection errors and 502/503/504 responses.
+   */
+  retryOn?: (error: any, attempt: number) => boolean;
+}
+
+// Socket errors that mean the server could not be reached or dropped the connection
+const RETRYABLE_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EPIPE",
+  "ETIMEDOUT",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "EAI_AGAIN",
+]);
+
+const RETRYABLE_STATUS_CODES = new Set([502, 503, 504]);
+
+/**
+ * The default retryOn predicate. Faults are never retried by default: the
+ * server received and answered the call.
+ */
+export function retryableError(error: any): boolean {
+  if (error?.name === "TimeoutError") return true;
+  if (RETRYABLE_STATUS_CODES.has(error?.res?.statusCode ?? error?.statusCode)) return true;
+  return typeof error?.code === "string" && RETRYABLE_ERROR_CODES.has(error.code);
+}
+
+/**
+ * Delay in ms before the given retry (1-based): exponential backoff capped
+ * at maxDelay, with the jitter fraction of it randomized.
+ */
+export function retryDelay(policy: RetryPolicy, retry: number): number {
+  const minDelay = policy.minDelay ?? 100;
+  const maxDelay = policy.maxDelay ?? 10000;
+  const factor = policy.factor ?? 2;
+  const jitter = Math.min(Math.max(policy.jitter ?? 0.5, 0), 1);
+
+  const delay = Math.min(maxDelay, minDelay * Math.pow(factor, retry - 1));
+  return Math.round(delay * (1 - jitter * Math.random()));
+}
@@ -1,7 +1,19 @@
 // serializer.mts
+import type { Writable } from "stream";
 import * as xmlBuilder from "xmlbuilder";
 import dateFormatter from "./date_formatter.mjs";
 import CustomType from "./customtype.mjs";
+import { XmlRpcFault } from "./fault.mjs";
+import { EXTENSIONS_NAMESPACE } from "./extensions.mjs";
+import { encodeXml, type Charset } from "./charset.mjs";
+import {
+  XmlRpcValue,
+  XmlRpcInt,
+  XmlRpcI8,
+  XmlRpcDouble,
+  XmlRpcString,
+  XmlRpcDateTime,
+} from "./value_types.mjs";
 
 // Minimal shape for the xmlbuilder nodes we use
 type XmlNode = {
@@ -12,9 +24,24 @@ type XmlNode = {
   d?: (value: string) => XmlNode; // CDATA writer (xmlbuilder has .cdata(), original used .d)
   cdata?: (value: string) => XmlNode;
   doc: () => { toString: () => string };
+  end: () => string;
 };
 
-type Encoding = BufferEncoding | undefined;
+// Name of the charset declared in the <?xml?> declaration
+type Encoding = string | undefined;
+
+export interface SerializerOptions {
+  /**
+   * What to do with integral numbers outside the int32 range: send them as
+   * <i8> ("promote", the default) or refuse to serialize them ("throw").
+   */
+  integerOverflow?: "promote" | "throw";
+  /**
+   * Apache XML-RPC extensions mode: declares the "ex" namespace and sends
+   * null as <ex:nil/> and 64-bit integers as <ex:i8>.
+   */
+  extensions?: boolean;
+}
 
 /**
  * Creates the XML for an XML-RPC method call.
@@ -22,55 +49,199 @@ type Encoding = BufferEncoding | undefined;
 export function serializeMethodCall(
   method: string,
   paramsInput?: any[],
-  encoding?: Encoding
+  encoding?: Encoding,
+  options: SerializerOptions = {}
 ): string {
-  const params = paramsInput ?? [];
+  return Array.from(methodCallChunks(method, paramsInput, encoding, options)).join("");
+}
 
-  const options: any = { version: "1.0", allowSurrogateChars: true };
-  if (encoding) options.encoding = encoding;
+/**
+ * Creates the XML for an XML-RPC method response.
+ */
+export function serializeMethodResponse(
+  result: any,
+  encoding?: Encoding,
+  options: SerializerOptions = {}
+): string {
+  return Array.from(methodResponseChunks(result, encoding, options)).join("");
+}
 
-  const xml = (xmlBuilder.create("methodCall", options) as unknown as XmlNode)
-    .ele("methodName")
-    .txt(method)
-    .up()
-    .ele("params");
+/**
+ * Creates the XML for an XML-RPC fault response.
+ * Errors (including XmlRpcFault) become a {faultCode, faultString} struct;
+ * any other value is serialized as given.
+ */
+export function serializeFault(
+  faultInput: any,
+  encoding?: Encoding,
+  options: SerializerOptions = {}
+): string {
+  return Array.from(faultChunks(faultInput, encoding, options)).join("");
+}
 
-  params.forEach((param) => {
-    serializeValue(param, xml.ele("param"));
-  });
+/**
+ * Yields the XML for an XML-RPC method call piece by piece while walking the
+ * params. Joined, the pieces equal serializeMethodCall().
+ */
+export function* methodCallChunks(
+  method: string,
+  paramsInput?: any[],
+  encoding?: Encoding,
+  options: SerializerOptions = {}
+): Generator<string> {
+  const params = paramsInput ?? [];
 
   // Includes the <?xml ...> declaration
-  return xml.doc().toString();
+  yield declaration(encoding) + rootTag("methodCall", options) + textElement("methodName", method);
+
+  if (params.length === 0) {
+    yield "<params/></methodCall>";
+    return;
+  }
+
+  yield "<params>";
+  for (const param of params) {
+    yield "<param>";
+    yield* valueChunks(param, options);
+    yield "</param>";
+  }
+  yield "</params></methodCall>";
 }
 
 /**
- * Creates the XML for an XML-RPC method response.
+ * Yields the XML for an XML-RPC method response piece by piece.
  */
-export function serializeMethodResponse(result: any): string {
-  const xml = (xmlBuilder.create("methodResponse", {
-    version: "1.0",
-    allowSurrogateChars: true,
-  }) as unknown as XmlNode)
-    .ele("params")
-    .ele("param");
+export function* methodResponseChunks(
+  result: any,
+  encoding?: Encoding,
+  options: SerializerOptions = {}
+): Generator<string> {
+  yield declaration(encoding) + rootTag("methodResponse", options) + "<params><param>";
+  yield* valueChunks(result, options);
+  yield "</param></params></methodResponse>";
+}
 
-  serializeValue(result, xml);
+/**
+ * Yields the XML for an XML-RPC fault response piece by piece.
+ */
+export function* faultChunks(
+  faultInput: any,
+  encoding?: Encoding,
+  options: SerializerOptions = {}
+): Generator<string> {
+  const fault = faultInput instanceof Error ? XmlRpcFault.from(faultInput).toStruct() : faultInput;
+
+  yield declaration(encoding) + rootTag("methodResponse", options) + "<fault>";
+  yield* valueChunks(fault, options);
+  yield "</fault></methodResponse>";
+}
 
-  return xml.doc().toString();
+export interface WriteOptions {
+  /**
+   * Documents up to this many bytes are written in one piece with a known
+   * length; larger ones are streamed as they are serialized.
+   */
+  threshold?: number;
+  /**
+   * Called before the first write with the byte length, or undefined when
+   * streaming. May return a Writable to write to instead, e.g. a compressor
+   * piped into the original one.
+   */
+  onHead?: (contentLength: number | undefined) => Writable | void;
+  /**
+   * Charset the document is encoded in, default UTF-8. Characters it cannot
+   * represent are written as character references.
+   */
+  charset?: Charset;
 }
 
 /**
- * Creates the XML for an XML-RPC fault response.
+ * Default threshold of writeDocument() for requests and responses: documents
+ * up to this size are sent in one piece with a Content-Length.
  */
-export function serializeFault(fault: any): string {
-  const xml = (xmlBuilder.create("methodResponse", {
-    version: "1.0",
-    allowSurrogateChars: true,
-  }) as unknown as XmlNode).ele("fault");
+export const DEFAULT_STREAM_THRESHOLD = 1024 * 1024;
+
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Writes a document produced by one of the *Chunks() generators to a
+ * Writable and ends it, pausing on backpressure. The callback receives any
+ * serialization error; if it happens before onHead was called nothing has
+ * been written yet and the caller may still answer differently.
+ */
+export function writeDocument(
+  chunks: Iterable<string>,
+  writable: Writable,
+  options: WriteOptions,
+  callback: (error: Error | null) => void
+): void {
+  const iterator = chunks[Symbol.iterator]();
+  const charset = options.charset ?? "UTF-8";
+  let done = false;
+
+  const pull = (limit: number): string => {
+    const parts: string[] = [];
+    let bytes = 0;
+    while (bytes < limit) {
+      const next = iterator.next();
+      if (next.done) {
+        done = true;
+        break;
+      }
+      parts.push(next.value);
+      bytes += Buffer.byteLength(next.value, "utf8");
+    }
+    return parts.join("");
+  };
+
+  let text: string;
+  try {
+    text = pull(options.threshold ?? Infinity);
+  } catch (err) {
+    callback(err as Error);
+    return;
+  }
+
+  // Pieces are joined whole, so a CDATA section never spans two writes
+  if (done) {
+    const data = encodeXml(text, charset);
+    const target = options.onHead?.(data.length) || writable;
+    target.end(data);
+    callback(null);
+    return;
+  }
 
-  serializeValue(fault, xml);
+  writable = options.onHead?.(undefined) || writable;
+
+  const step = (): void => {
+    while (!done) {
+      const ok = writable.write(encodeXml(text, charset));
+      try {
+        text = pull(CHUNK_SIZE);
+      } catch (err) {
+        writable.destroy(err as Error);
+        callback(err as Error);
+        return;
+      }
+      if (!ok) {
+        const onDrain = () => {
+          writable.off("close", onClose);
+          step();
+        };
+        const onClose = () => {
+          writable.off("drain", onDrain);
+          callback(new Error("Stream closed before the document was written"));
+        };
+        writable.once("drain", onDrain);
+        writable.once("close", onClose);
+        return;
+      }
+    }
+    writable.end(encodeXml(text, charset));
+    callback(null);
+  };
 
-  return xml.doc().toString();
+  step();
 }
 
 // ---------------------------------------------------------------------------
@@ -79,149 +250,244 @@ export function serializeFault(fault: any): string {
 
 type Frame = {
   value: any;
-  xml: XmlNode;
-  index?: number;
+  index: number;
   keys?: string[];
 };
 
-function serializeValue(value: any, xml: XmlNode): void {
-  const stack: Frame[] = [{ value, xml }];
-  let current: Frame | null = null;
-  let valueNode: XmlNode | null = null;
-  let next: Frame | null = null;
-
-  while (stack.length > 0) {
-    current = stack[stack.length - 1];
+/**
+ * Walks a value depth-first without recursion, yielding its <value> element
+ * in pieces. Output matches what xmlbuilder produced for the same value.
+ */
+function* valueChunks(value: any, options: SerializerOptions): Generator<string> {
+  const stack: Frame[] = [];
+  let pending: { value: any } | null = { value };
+
+  while (pending || stack.length > 0) {
+    if (pending) {
+      const current = pending.value;
+      pending = null;
+
+      if (isCompound(current)) {
+        if (Array.isArray(current)) {
+          if (current.length === 0) {
+            yield "<value><array><data/></array></value>";
+            continue;
+          }
+          yield "<value><array><data>";
+          stack.push({ value: current, index: 0 });
+        } else {
+          const keys = Object.keys(current);
+          if (keys.length === 0) {
+            yield "<value><struct/></value>";
+            continue;
+          }
+          yield "<value><struct>";
+          stack.push({ value: current, index: 0, keys });
+        }
+      } else {
+        const scalar = scalarXml(current, options);
+        yield scalar === "" ? "<value/>" : "<value>" + scalar + "</value>";
+        continue;
+      }
+    }
 
-    if (current.index !== undefined) {
-      // Iterating a compound
-      next = getNextItemsFrame(current);
-      if (next) {
-        stack.push(next);
+    const frame = stack[stack.length - 1];
+    if (frame.keys) {
+      if (frame.index > 0) yield "</member>";
+      if (frame.index < frame.keys.length) {
+        const key = frame.keys[frame.index++];
+        yield "<member>" + textElement("name", key);
+        pending = { value: frame.value[key] };
       } else {
         stack.pop();
+        yield "</struct></value>";
       }
+    } else if (frame.index < frame.value.length) {
+      pending = { value: frame.value[frame.index++] };
     } else {
-      // about to add a new value (compound or simple)
-      valueNode = current.xml.ele("value");
-      switch (typeof current.value) {
-        case "boolean":
-          appendBoolean(current.value, valueNode);
-          stack.pop();
-          break;
-        case "string":
-          appendString(current.value, valueNode);
-          stack.pop();
-          break;
-        case "number":
-          appendNumber(current.value, valueNode);
-          stack.pop();
-          break;
-        case "object":
-          if (current.value === null) {
-            valueNode.ele("nil");
-            stack.pop();
-          } else if (current.value instanceof Date) {
-            appendDatetime(current.value, valueNode);
-            stack.pop();
-          } else if (Buffer.isBuffer(current.value)) {
-            appendBuffer(current.value, valueNode);
-            stack.pop();
-          } else if (current.value instanceof CustomType) {
-            current.value.serialize(valueNode);
-            stack.pop();
-          } else {
-            if (Array.isArray(current.value)) {
-              current.xml = valueNode.ele("array").ele("data");
-            } else {
-              current.xml = valueNode.ele("struct");
-              current.keys = Object.keys(current.value);
-            }
-            current.index = 0;
-            next = getNextItemsFrame(current);
-            if (next) {
-              stack.push(next);
-            } else {
-              stack.pop();
-            }
-          }
-          break;
-        default:
-          // unsupported value types are ignored (parity with original)
-          stack.pop();
-          break;
-      }
+      stack.pop();
+      yield "</data></array></value>";
     }
   }
 }
 
-function getNextItemsFrame(frame: Frame): Frame | null {
-  let nextFrame: Frame | null = null;
+function isCompound(value: any): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !(value instanceof Date) &&
+    !Buffer.isBuffer(value) &&
+    !(value instanceof CustomType) &&
+    !(value instanceof XmlRpcValue)
+  );
+}
 
-  if (frame.keys) {
-    if (frame.index! < frame.keys.length) {
-      const key = frame.keys[frame.index!++];
-      const member = frame.xml.ele("member").ele("name");
-      // original used .text(key) then .up()
-      (member.text ? member.text(key) : member.txt(key)).up?.();
-      nextFrame = {
-        value: frame.value[key],
-        xml: member, // the JS original attaches next value node at member-level
-      };
-    }
-  } else if (frame.index! < frame.value.length) {
-    nextFrame = {
-      value: frame.value[frame.index!],
-      xml: frame.xml,
-    };
-    frame.index = frame.index! + 1;
+/**
+ * Renders the content of a <value> element for a non-compound value.
+ */
+function scalarXml(value: any, options: SerializerOptions): string {
+  switch (typeof value) {
+    case "boolean":
+      return appendBoolean(value);
+    case "string":
+      return appendString(value);
+    case "number":
+      return appendNumber(value, options);
+    case "bigint":
+      return appendBigInt(value, options);
+    case "object":
+      if (value === null) {
+        return options.extensions ? "<ex:nil/>" : "<nil/>";
+      } else if (value instanceof Date) {
+        return appendDatetime(value);
+      } else if (Buffer.isBuffer(value)) {
+        return appendBuffer(value);
+      } else if (value instanceof CustomType) {
+        return appendCustomType(value);
+      } else if (value instanceof XmlRpcValue) {
+        return appendWrapped(value, options);
+      }
+      return "";
+    default:
+      // unsupported value types yield an empty <value/> (parity with original)
+      return "";
   }
-
-  return nextFrame;
 }
 
-function appendBoolean(value: boolean, xml: XmlNode): void {
-  xml.ele("boolean").txt(value ? 1 : 0);
+function appendBoolean(value: boolean): string {
+  return textElement("boolean", value ? "1" : "0");
 }
 
 const illegalChars = /^(?![^<&]*]]>[^<&]*)[^<&]*$/;
 
-function appendString(value: string, xml: XmlNode): void {
+function appendString(value: string): string {
   if (value.length === 0) {
-    xml.ele("string");
-    return;
+    return "<string/>";
   }
 
   if (!illegalChars.test(value)) {
-    const str = xml.ele("string");
-    if (typeof (str as any).d === "function") {
-      (str as any).d(value);
-    } else if (typeof (str as any).cdata === "function") {
-      (str as any).cdata(value);
-    } else {
-      str.txt(value);
-    }
-    return;
+    return "<string>" + cdata(value) + "</string>";
   }
 
-  xml.ele("string").txt(value);
+  return textElement("string", value);
 }
 
-
-function appendNumber(value: number, xml: XmlNode): void {
+function appendNumber(value: number, options: SerializerOptions): string {
   if (value % 1 === 0) {
-    xml.ele("int").txt(value);
+    if (value < INT32_MIN || value > INT32_MAX) {
+      if (options.integerOverflow === "throw") {
+        throw new Error("Integer " + value + " does not fit in an XML-RPC <int>");
+      }
+      return appendBigInt(BigInt(value), options);
+    }
+    return textElement("int", String(value));
   } else {
-    xml.ele("double").txt(value);
+    return textElement("double", String(value));
+  }
+}
+
+const INT32_MIN = -2147483648;
+const INT32_MAX = 2147483647;
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+function appendBigInt(value: bigint, options: SerializerOptions): string {
+  if (value < INT64_MIN || value > INT64_MAX) {
+    throw new Error("Integer " + value + " does not fit in an XML-RPC <i8>");
+  }
+  return textElement(options.extensions ? "ex:i8" : "i8", value.toString());
+}
+
+function appendDatetime(value: Date): string {
+  return textElement("dateTime.iso8601", dateFormatter.encodeIso8601(value));
+}
+
+function appendBuffer(value: Buffer): string {
+  return textElement("base64", value.toString("base64"));
+}
+
+/**
+ * Explicitly typed values are sent as their wrapper's type.
+ */
+function appendWrapped(wrapper: XmlRpcValue, options: SerializerOptions): string {
+  if (wrapper instanceof XmlRpcI8) {
+    return appendBigInt(wrapper.value, options);
+  } else if (wrapper instanceof XmlRpcString) {
+    return appendString(wrapper.value);
+  } else if (wrapper instanceof XmlRpcInt) {
+    return textElement("int", String(wrapper.value).trim());
+  } else if (wrapper instanceof XmlRpcDouble) {
+    const value = wrapper.value;
+    // integral doubles keep a fraction so strict peers do not read them as ints
+    const text =
+      value === undefined ? ""
+        : typeof value === "number" && Number.isInteger(value) && Math.abs(value) < 1e21 ? value.toFixed(1)
+          : String(value).trim();
+    return textElement("double", text);
+  } else if (wrapper instanceof XmlRpcDateTime) {
+    const value = wrapper.value;
+    return textElement(
+      "dateTime.iso8601",
+      value instanceof Date ? dateFormatter.encodeIso8601(value) : value
+    );
+  }
+  return textElement(wrapper.tagName, String(wrapper.value));
+}
+
+/**
+ * Custom types serialize through the xmlbuilder API, so they get a detached
+ * <value> node of their own that is rendered in place.
+ */
+function appendCustomType(value: CustomType): string {
+  const node = xmlBuilder.create("value", {
+    headless: true,
+    allowSurrogateChars: true,
+  }) as unknown as XmlNode;
+  value.serialize(node);
+  const xml = node.end();
+  return xml === "<value/>" ? "" : xml.slice("<value>".length, -"</value>".length);
+}
+
+// The escaping below mirrors xmlbuilder's XMLStringifier with allowSurrogateChars.
+
+function declaration(encoding?: Encoding): string {
+  return '<?xml version="1.0"' + (encoding ? ' encoding="' + encoding + '"' : "") + "?>";
+}
+
+function rootTag(name: string, options: SerializerOptions): string {
+  return options.extensions
+    ? "<" + name + ' xmlns:ex="' + EXTENSIONS_NAMESPACE + '">'
+    : "<" + name + ">";
+}
+
+function textElement(name: string, text: string): string {
+  const escaped = escapeText(text);
+  return escaped === "" ? "<" + name + "/>" : "<" + name + ">" + escaped + "</" + name + ">";
+}
+
+const invalidChars = /[\u0000-\u0008\u000B-\u000C\u000E-\u001F\uFFFE-\uFFFF]/;
+
+function assertLegalChar(str: string): string {
+  const chr = str.match(invalidChars);
+  if (chr) {
+    throw new Error("Invalid character (" + chr + ") in string: " + str + " at index " + chr.index);
   }
+  return str;
 }
 
-function appendDatetime(value: Date, xml: XmlNode): void {
-  xml.ele("dateTime.iso8601").txt(dateFormatter.encodeIso8601(value));
+function escapeText(value: string): string {
+  return assertLegalChar(
+    String(value)
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/\r/g, "&#xD;")
+  );
 }
 
-function appendBuffer(value: Buffer, xml: XmlNode): void {
-  xml.ele("base64").txt(value.toString("base64"));
+function cdata(value: string): string {
+  // only the first terminator is split, as xmlbuilder does
+  return "<![CDATA[" + assertLegalChar(value.replace("]]>", "]]]]><![CDATA[>")) + "]]>";
 }
 
 // Default export that mirrors the CommonJS `module.exports = { ... }` style
@@ -229,6 +495,10 @@ const Serializer = {
   serializeMethodCall,
   serializeMethodResponse,
   serializeFault,
+  methodCallChunks,
+  methodResponseChunks,
+  faultChunks,
+  writeDocument,
 };
 
 export default Serializer;
@@ -2,15 +2,27 @@
 import * as http from "http";
 import * as https from "https";
 import { parse as parseUrl } from "url";
-import { EventEmitter } from "events";
-import Serializer from "./serializer.mjs";
-import Deserializer from "./deserializer.mjs";
+import {
+  Dispatcher,
+  createHandler,
+  rejectUnread,
+  type HandlerOptions,
+  type RequestHandler,
+} from "./dispatcher.mjs";
+import { MemoryStore } from "./session.mjs";
+
+export type { MethodContext, ServerCallContext, ServerMiddleware } from "./dispatcher.mjs";
 
 type OnListening = () => void;
 
-export interface ServerInitOptions {
+export interface ServerInitOptions extends HandlerOptions {
   host?: string;
   port: number;
+  /**
+   * Path the server's own methods are served on. Without it they answer
+   * every path that has nothing mounted on it.
+   */
+  path?: string;
   // You may add HTTPS options here if you pass an HTTPS serverOptions object
   // (e.g., key/cert) when using isSecure = true.
   // We leave this open to allow passing through to https.createServer:
@@ -27,68 +39,46 @@ export interface ServerInitOptions {
  *   });
  *   srv.on("sum", (err, params, reply) => { reply(null, params[0] + params[1]); });
  */
-export default class Server extends EventEmitter {
+export default class Server extends Dispatcher {
   public httpServer: http.Server | https.Server;
+  private routes: Map<string, RequestHandler> = new Map();
 
   constructor(
     options: ServerInitOptions | string,
     isSecure: boolean = false,
     onListening?: OnListening
   ) {
-    super();
-
-    const listenCb: OnListening = onListening ?? (() => { });
-
-    // Normalize options when given a URL string
-    let opts: ServerInitOptions;
-    if (typeof options === "string") {
-      const parsed = parseUrl(options);
-      opts = {
-        host: (parsed as any).hostname,
-        // pathname can be used by upstream stacks; keep parity with original assignment
-        path: parsed.pathname,
-        port: parsed.port ? Number(parsed.port) : undefined,
-      } as ServerInitOptions;
-    } else {
-      opts = { ...options };
+    const opts = normalizeOptions(options);
+    // Paths mounted with the server's options share its sessions, not just its cookie
+    if (opts.session && !opts.session.store) {
+      opts.session = { ...opts.session, store: new MemoryStore() };
     }
+    super(opts);
 
-    // request handler for XML-RPC method calls
-    const handleMethodCall = (request: http.IncomingMessage, response: http.ServerResponse) => {
-      const deserializer = new Deserializer();
-      deserializer.deserializeMethodCall(
-        request,
-        (error: Error | null, methodName?: string, params?: any[]) => {
-          if (methodName && this.listenerCount(methodName) > 0) {
-            // The handler signature mirrors the original:
-            // listener(null, params, (error, value) => { ... })
-            this.emit(
-              methodName,
-              null,
-              params,
-              (err: any, value: any) => {
-                const xml =
-                  err != null
-                    ? Serializer.serializeFault(err)
-                    : Serializer.serializeMethodResponse(value);
+    const listenCb: OnListening = onListening ?? (() => { });
+    // A URL without a path, which parses as "/", limits nothing, as before routing existed
+    const fromBareUrl = typeof options === "string" && normalizePath(opts.path ?? "/") === "/";
+    const ownPath = opts.path !== undefined && !fromBareUrl ? normalizePath(opts.path) : undefined;
+    const ownHandler = createHandler(this);
 
-                response.writeHead(200, { "Content-Type": "text/xml" });
-                response.end(xml);
-              }
-            );
-          } else {
-            this.emit("NotFound", methodName, params);
-            response.writeHead(404);
-            response.end();
-          }
-        }
-      );
+    // Unknown paths are refused before their body is read
+    const handleRequest = (request: http.IncomingMessage, response: http.ServerResponse) => {
+      const path = normalizePath(request.url ?? "/");
+      const handler =
+        this.routes.get(path) ?? (ownPath === undefined || ownPath === path ? ownHandler : undefined);
+      if (handler) {
+        handler(request, response);
+      } else {
+        rejectUnread(request, response);
+        response.writeHead(404);
+        response.end();
+      }
     };
 
     // Create HTTP/HTTPS server
     this.httpServer = isSecure
-      ? https.createServer(opts as https.ServerOptions, handleMethodCall)
-      : http.createServer(handleMethodCall);
+      ? https.createServer(opts as https.ServerOptions, handleRequest)
+      : http.createServer(handleRequest);
 
     // Begin listening on next tick (parity with original)
     process.nextTick(() => {
@@ -96,6 +86,32 @@ export default class Server extends EventEmitter {
     });
   }
 
+  /**
+   * Serves a separate set of methods on another path of this server, with
+   * its own handlers, middleware and introspection. Takes a dispatcher, or
+   * options for a new one that default to the server's; an inherited session
+   * option shares the server's session store. Returns the dispatcher to
+   * register methods on.
+   *
+   *   const admin = srv.mount("/admin", { auth: { basic: checkAdmin } });
+   *   admin.addMethod("shutdown", () => { ... });
+   */
+  mount(path: string, dispatcher: Dispatcher | HandlerOptions = {}): Dispatcher {
+    const handler = createHandler(
+      dispatcher instanceof Dispatcher ? dispatcher : { ...this.options, ...dispatcher }
+    );
+    this.routes.set(normalizePath(path), handler);
+    return handler.dispatcher;
+  }
+
+  /**
+   * Removes the method set mounted on a path. Chainable.
+   */
+  unmount(path: string): this {
+    this.routes.delete(normalizePath(path));
+    return this;
+  }
+
   /**
    * Closes the underlying server. The callback is invoked after 'close'.
    */
@@ -104,3 +120,24 @@ export default class Server extends EventEmitter {
     this.httpServer.close();
   }
 }
+
+// Drops the query string and a trailing slash, so "/RPC2/?x" routes like "/RPC2"
+function normalizePath(url: string): string {
+  const path = url.split("?")[0];
+  return path.length > 1 && path.endsWith("/") ? path.slice(0, -1) : path;
+}
+
+// Normalize options when given a URL string
+function normalizeOptions(options: ServerInitOptions | string): ServerInitOptions {
+  if (typeof options !== "string") {
+    return { ...options };
+  }
+
+  const parsed = parseUrl(options);
+  return {
+    host: (parsed as any).hostname,
+    // pathname can be used by upstream stacks; keep parity with original assignment
+    path: parsed.pathname,
+    port: parsed.port ? Number(parsed.port) : undefined,
+  } as ServerInitOptions;
+}
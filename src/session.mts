@@ -0,0 +1,206 @@
+// session.mts
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type * as http from "http";
+import type { ServerMiddleware } from "./dispatcher.mjs";
+
+/**
+ * Where sessions are kept between calls. Methods may return promises.
+ * Session data must be JSON-serializable.
+ */
+export interface SessionStore {
+  get(id: string): Record<string, any> | undefined | Promise<Record<string, any> | undefined>;
+  /** Saves a session, to expire after ttl milliseconds. */
+  set(id: string, data: Record<string, any>, ttl: number): void | Promise<void>;
+  destroy(id: string): void | Promise<void>;
+}
+
+/**
+ * Server sessions, tracked with a signed cookie.
+ */
+export interface SessionOptions {
+  /** Key(s) signing the session cookie. The first signs, all verify, so keys can be rotated. */
+  secret: string | string[];
+  /** Name of the session cookie. Default "xmlrpc.sid". */
+  cookieName?: string;
+  /** Milliseconds a session lives after its last call. Default one day. */
+  ttl?: number;
+  /** Defaults to a MemoryStore. */
+  store?: SessionStore;
+  /** Attributes of the session cookie. Secure defaults to whether the call came over TLS. */
+  cookie?: {
+    path?: string;
+    domain?: string;
+    secure?: boolean;
+    sameSite?: "Strict" | "Lax" | "None";
+  };
+}
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000;
+
+// Expired sessions are swept from a MemoryStore at most this often
+const SWEEP_INTERVAL = 60 * 1000;
+
+/**
+ * Keeps sessions in process memory, expiring them after their ttl.
+ */
+export class MemoryStore implements SessionStore {
+  private sessions: Map<string, { data: string; expires: number }>;
+  private nextSweep: number;
+
+  constructor() {
+    this.sessions = new Map();
+    this.nextSweep = Date.now() + SWEEP_INTERVAL;
+  }
+
+  get(id: string): Record<string, any> | undefined {
+    const entry = this.sessions.get(id);
+    if (!entry) return undefined;
+    if (entry.expires <= Date.now()) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    return JSON.parse(entry.data);
+  }
+
+  set(id: string, data: Record<string, any>, ttl: number): void {
+    const now = Date.now();
+    if (now >= this.nextSweep) {
+      for (const [key, entry] of this.sessions) {
+        if (entry.expires <= now) this.sessions.delete(key);
+      }
+      this.nextSweep = now + SWEEP_INTERVAL;
+    }
+    // Stored as JSON so later changes to the object do not leak into the store
+    this.sessions.set(id, { data: JSON.stringify(data), expires: now + ttl });
+  }
+
+  destroy(id: string): void {
+    this.sessions.delete(id);
+  }
+}
+
+/**
+ * The session of the caller, passed to handlers as context.session. Data
+ * put into it is saved once the call has been handled.
+ *
+ *   srv.addMethod("login", async ([user, pass], { session }) => {
+ *     if (!(await check(user, pass))) throw new XmlRpcFault(401, "Bad credentials");
+ *     session.regenerate();
+ *     session.data.user = user;
+ *     return true;
+ *   });
+ */
+export class Session {
+  id: string;
+  data: Record<string, any>;
+  /** True until the session has been saved for the first time. */
+  readonly isNew: boolean;
+  /** Set by regenerate(): the id the session had when it was loaded. */
+  previousId?: string;
+  destroyed: boolean;
+
+  constructor(id: string, data: Record<string, any>, isNew: boolean) {
+    this.id = id;
+    this.data = data;
+    this.isNew = isNew;
+    this.destroyed = false;
+  }
+
+  /**
+   * Moves the session to a new id, e.g. after a login, so that an id known
+   * before cannot be used to take the session over.
+   */
+  regenerate(): void {
+    this.previousId ??= this.id;
+    this.id = newId();
+  }
+
+  /**
+   * Deletes the session and clears its cookie.
+   */
+  destroy(): void {
+    this.destroyed = true;
+    this.data = {};
+  }
+}
+
+/**
+ * Builds the middleware loading the caller's session before the call and
+ * saving it afterwards. The cookie is only issued once the session holds
+ * data, and is refreshed with every call so the session stays alive.
+ */
+export function manageSessions(options: SessionOptions): ServerMiddleware {
+  const secrets = Array.isArray(options.secret) ? options.secret : [options.secret];
+  if (secrets.length === 0 || secrets.some((secret) => !secret)) {
+    throw new Error("Sessions need a non-empty secret");
+  }
+  const cookieName = options.cookieName ?? "xmlrpc.sid";
+  const ttl = options.ttl ?? DEFAULT_TTL;
+  const store = options.store ?? new MemoryStore();
+
+  return async (ctx, next) => {
+    const cookie = ctx.cookies[cookieName];
+    const id = cookie !== undefined ? unsign(cookie, secrets) : undefined;
+    const data = id !== undefined ? await store.get(id) : undefined;
+
+    const session = data ? new Session(id!, data, false) : new Session(newId(), {}, true);
+    ctx.session = session;
+
+    await next();
+
+    const attributes = [
+      `Path=${options.cookie?.path ?? "/"}`,
+      ...(options.cookie?.domain ? [`Domain=${options.cookie.domain}`] : []),
+      ...((options.cookie?.secure ?? ctx.socket.encrypted) ? ["Secure"] : []),
+      "HttpOnly",
+      `SameSite=${options.cookie?.sameSite ?? "Lax"}`,
+    ];
+
+    if (session.destroyed) {
+      if (!session.isNew) await store.destroy(session.previousId ?? session.id);
+      if (cookie !== undefined) appendSetCookie(ctx.responseHeaders, [`${cookieName}=`, "Max-Age=0", ...attributes]);
+      return;
+    }
+    if (session.isNew && Object.keys(session.data).length === 0) return;
+
+    if (session.previousId !== undefined && !session.isNew) await store.destroy(session.previousId);
+    await store.set(session.id, session.data, ttl);
+    appendSetCookie(ctx.responseHeaders, [
+      `${cookieName}=${sign(session.id, secrets[0])}`,
+      `Max-Age=${Math.floor(ttl / 1000)}`,
+      ...attributes,
+    ]);
+  };
+}
+
+function newId(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+function signature(id: string, secret: string): string {
+  return createHmac("sha256", secret).update(id).digest("base64url");
+}
+
+function sign(id: string, secret: string): string {
+  return id + "." + signature(id, secret);
+}
+
+// The id of a signed cookie value, if any of the secrets signed it
+function unsign(value: string, secrets: string[]): string | undefined {
+  const dot = value.lastIndexOf(".");
+  if (dot < 1) return undefined;
+
+  const id = value.slice(0, dot);
+  const given = Buffer.from(value.slice(dot + 1));
+  for (const secret of secrets) {
+    const expected = Buffer.from(signature(id, secret));
+    if (given.length === expected.length && timingSafeEqual(given, expected)) return id;
+  }
+  return undefined;
+}
+
+function appendSetCookie(headers: http.OutgoingHttpHeaders, parts: string[]): void {
+  const existing = headers["Set-Cookie"];
+  const cookies = existing === undefined ? [] : Array.isArray(existing) ? existing : [String(existing)];
+  headers["Set-Cookie"] = [...cookies, parts.join("; ")];
+}
@@ -0,0 +1,156 @@
+// value_types.mts
+import CustomType from "./customtype.mjs";
+
+/**
+ * Base class of the explicit type wrappers. The serializer sends a wrapped
+ * value as the wrapper's XML-RPC type instead of guessing it from `typeof`.
+ */
+export abstract class XmlRpcValue<T = any> {
+  value: T;
+
+  constructor(value: T) {
+    this.value = value;
+  }
+
+  /** XML-RPC tag name */
+  abstract get tagName(): string;
+}
+
+/** Sends <int>, accepting integral numbers and integer strings within int32 range. */
+export class XmlRpcInt extends XmlRpcValue<number | string> {
+  constructor(value: number | string) {
+    const text = String(value).trim();
+    if (!/^[-+]?\d+$/.test(text) || Number(text) < -2147483648 || Number(text) > 2147483647) {
+      throw new Error("Expected a 32-bit integer but got '" + value + "'");
+    }
+    super(value);
+  }
+
+  get tagName(): string {
+    return "int";
+  }
+}
+
+/** Sends <i8> (<ex:i8> in extensions mode). */
+export class XmlRpcI8 extends XmlRpcValue<bigint> {
+  constructor(value: bigint | number | string) {
+    const text = String(value).trim();
+    if (!/^[-+]?\d+$/.test(text)) {
+      throw new Error("Expected a 64-bit integer but got '" + value + "'");
+    }
+    super(BigInt(text));
+  }
+
+  get tagName(): string {
+    return "i8";
+  }
+}
+
+/** Sends <double>; constructed without a value it sends an empty <double/>. */
+export class XmlRpcDouble extends XmlRpcValue<number | string | undefined> {
+  constructor(value?: number | string) {
+    if (value !== undefined && Number.isNaN(Number(value))) {
+      throw new Error("Expected a double but got '" + value + "'");
+    }
+    super(value);
+  }
+
+  get tagName(): string {
+    return "double";
+  }
+}
+
+/** Sends <string>, whatever the value looks like. */
+export class XmlRpcString extends XmlRpcValue<string> {
+  constructor(value: any) {
+    super(String(value));
+  }
+
+  get tagName(): string {
+    return "string";
+  }
+}
+
+/**
+ * Sends <dateTime.iso8601>. Dates are encoded with the dateFormatter, strings
+ * are sent verbatim.
+ */
+export class XmlRpcDateTime extends XmlRpcValue<Date | string> {
+  constructor(value: Date | string) {
+    super(value);
+  }
+
+  get tagName(): string {
+    return "dateTime.iso8601";
+  }
+}
+
+/**
+ * Declared type of a param, used by the client to coerce plain values before
+ * they are serialized. "any" leaves the value as it is.
+ */
+export type ValueSchema =
+  | "int"
+  | "i4"
+  | "i8"
+  | "double"
+  | "string"
+  | "boolean"
+  | "dateTime.iso8601"
+  | "base64"
+  | "any"
+  | { array: ValueSchema }
+  | { struct: { [member: string]: ValueSchema } };
+
+/**
+ * Wraps a plain value so that it serializes as the declared type. Values
+ * already wrapped, custom types and null are left alone; arrays and structs
+ * are walked according to the schema. Throws if a value cannot be coerced.
+ */
+export function coerceValue(value: any, schema: ValueSchema): any {
+  if (value == null || value instanceof XmlRpcValue || value instanceof CustomType) {
+    return value;
+  }
+
+  if (typeof schema === "object") {
+    if ("array" in schema) {
+      if (!Array.isArray(value)) throw new Error("Expected an array but got '" + value + "'");
+      return value.map((item) => coerceValue(item, schema.array));
+    }
+    if (typeof value !== "object" || Array.isArray(value)) {
+      throw new Error("Expected a struct but got '" + value + "'");
+    }
+    const struct: { [key: string]: any } = { ...value };
+    for (const member of Object.keys(schema.struct)) {
+      if (member in struct) struct[member] = coerceValue(struct[member], schema.struct[member]);
+    }
+    return struct;
+  }
+
+  switch (schema) {
+    case "int":
+    case "i4":
+      return new XmlRpcInt(value);
+    case "i8":
+      return new XmlRpcI8(value);
+    case "double":
+      return new XmlRpcDouble(value);
+    case "string":
+      return new XmlRpcString(value);
+    case "boolean":
+      return coerceBoolean(value);
+    case "dateTime.iso8601":
+      return new XmlRpcDateTime(value);
+    case "base64":
+      return Buffer.isBuffer(value) ? value : Buffer.from(String(value));
+    default:
+      return value;
+  }
+}
+
+function coerceBoolean(value: any): boolean {
+  if (typeof value === "boolean") return value;
+  if (value === 1 || value === "1" || value === "true") return true;
+  if (value === 0 || value === "0" || value === "false") return false;
+  throw new Error("Expected a boolean but got '" + value + "'");
+}
@@ -1,7 +1,60 @@
 // index.mts
-import Client, { type ClientOptions } from "./client.mjs";
-import Server, { type ServerInitOptions } from "./server.mjs";
+import Client, {
+  TimeoutError,
+  XmlRpcHttpError,
+  type CallOptions,
+  type ClientCallContext,
+  type ClientMiddleware,
+  type ClientOptions,
+} from "./client.mjs";
+import { retryableError, type RetryPolicy } from "./retry.mjs";
+import Server, {
+  type MethodContext,
+  type ServerCallContext,
+  type ServerInitOptions,
+  type ServerMiddleware,
+} from "./server.mjs";
+import {
+  Dispatcher,
+  createHandler,
+  type HandlerOptions,
+  type RequestHandler,
+  type SocketInfo,
+} from "./dispatcher.mjs";
 import CustomType from "./customtype.mjs";
+import Cookies, { type CookieJSON } from "./cookies.mjs";
+import { MemoryStore, Session, type SessionOptions, type SessionStore } from "./session.mjs";
+import type { AuthOptions } from "./auth.mjs";
+import type { CompressionOptions } from "./compression.mjs";
+import { UnsupportedCharsetError, type Charset } from "./charset.mjs";
+import Serializer from "./serializer.mjs";
+import Deserializer, {
+  LimitExceededError,
+  type DeserializerOptions,
+  type Limits,
+  type TypeDecoder,
+} from "./deserializer.mjs";
+import {
+  XmlRpcValue,
+  XmlRpcInt,
+  XmlRpcI8,
+  XmlRpcDouble,
+  XmlRpcString,
+  XmlRpcDateTime,
+  type ValueSchema,
+} from "./value_types.mjs";
+import {
+  EXTENSIONS_NAMESPACE,
+  ExI1,
+  ExI2,
+  ExFloat,
+  ExBigDecimal,
+  ExBigInteger,
+  ExDateTime,
+  ExSerializable,
+} from "./extensions.mjs";
+import { FaultCode, XmlRpcFault, type FaultStruct } from "./fault.mjs";
+import MethodRegistry, { type MethodHandler, type MethodInfo } from "./method_registry.mjs";
 import dateFormatter, { DateFormatter as DateFormatterClass } from "./date_formatter.mjs";
 
 /**
@@ -39,7 +92,69 @@ export function createSecureServer(
 }
 
 // Re-exports for convenience
-export { Client, Server, CustomType, dateFormatter, DateFormatterClass as DateFormatter };
+export {
+  Client,
+  Server,
+  Dispatcher,
+  createHandler,
+  Cookies,
+  MemoryStore,
+  Session,
+  CustomType,
+  FaultCode,
+  XmlRpcFault,
+  MethodRegistry,
+  Serializer,
+  Deserializer,
+  LimitExceededError,
+  UnsupportedCharsetError,
+  TimeoutError,
+  XmlRpcHttpError,
+  retryableError,
+  XmlRpcValue,
+  XmlRpcInt,
+  XmlRpcI8,
+  XmlRpcDouble,
+  XmlRpcString,
+  XmlRpcDateTime,
+  EXTENSIONS_NAMESPACE,
+  ExI1,
+  ExI2,
+  ExFloat,
+  ExBigDecimal,
+  ExBigInteger,
+  ExDateTime,
+  ExSerializable,
+  dateFormatter,
+  DateFormatterClass as DateFormatter,
+};
+export type {
+  ClientOptions,
+  CallOptions,
+  CookieJSON,
+  ClientCallContext,
+  ClientMiddleware,
+  RetryPolicy,
+  ServerInitOptions,
+  HandlerOptions,
+  RequestHandler,
+  AuthOptions,
+  SessionOptions,
+  SessionStore,
+  CompressionOptions,
+  Charset,
+  DeserializerOptions,
+  TypeDecoder,
+  Limits,
+  ValueSchema,
+  FaultStruct,
+  MethodContext,
+  SocketInfo,
+  ServerCallContext,
+  ServerMiddleware,
+  MethodHandler,
+  MethodInfo,
+};
 
 // Default export mirroring the original CommonJS `xmlrpc` object
 export default {
@@ -47,6 +162,9 @@ export default {
   createSecureClient,
   createServer,
   createSecureServer,
+  createHandler,
   CustomType,
+  FaultCode,
+  XmlRpcFault,
   dateFormatter,
 };